@@ -2,35 +2,37 @@
 pragma solidity ^0.8.19;
 
 /// @notice Sparse Merkle Tree verifier for 256-bit keys using keccak256.
-/// @dev Proof ordering: proof[0] is the sibling at the leaf level (closest to leaf).
-///      proof[i] corresponds to sibling at level i (0 = leaf level, 255 = root level).
+/// @dev Matches the backend's @cedoor/smt-compatible trees (rofl-backend/src/utils/smt.util.ts):
+///      - leaves are keccak256(abi.encodePacked(key, value, bytes32(uint256(1))))
+///      - proof[0] is the sibling at the root level, proof[proof.length - 1] the one next to the leaf;
+///        the leaf sits at depth proof.length (paths are compressed, so proofs are variable length)
+///      - at depth i the path goes right when bit i of the key (least significant first) is set
+///      packages/smt-verifier mirrors this in TypeScript; see test/vectors/smt-proofs.json.
 library SparseMerkleProof {
+    bytes32 internal constant LEAF_MARK = bytes32(uint256(1));
+
+    /// @notice Hash of a leaf holding value under key.
+    function hashLeaf(bytes32 key, bytes32 value) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked(key, value, LEAF_MARK));
+    }
+
     /// @notice Compute Merkle root from a leaf hash, a 256-bit key, and sibling proof.
-    /// @param leafHash keccak256 hash of the leaf (e.g. keccak256(abi.encodePacked(key, value)) or your scheme)
-    /// @param key the 32-byte key. The bit at position (255 - i) decides left/right at level i.
-    /// @param proof siblings array (length should equal tree height used; variable length proofs OK).
+    /// @param leafHash hash of the leaf, see hashLeaf
+    /// @param key the 32-byte key; bit i decides left/right at depth i
+    /// @param proof siblings from the root level down
     /// @return root computed root
     function computeRootFromProof(bytes32 leafHash, bytes32 key, bytes32[] memory proof)
         internal
         pure
         returns (bytes32 root)
     {
-        // Start from the leaf hash
         bytes32 computed = leafHash;
-
-        // For each level i, combine computed with proof[i].
-        // Bit selection: take bit (255 - i) of key. If that bit == 1, current node is on the right:
-        //   parent = keccak256(abi.encodePacked(sibling, computed))
-        // else (bit == 0), current node is on the left:
-        //   parent = keccak256(abi.encodePacked(computed, sibling))
-        // proof[0] = sibling at leaf level (closest to leaf).
         uint256 keyInt = uint256(key);
-        for (uint256 i = 0; i < proof.length; ++i) {
-            bytes32 sibling = proof[i];
-            // extract bit: most significant bit is level 0 (closest to root if you prefer); here we use MSB->level0 style
-            // We want bit for level i counting from leaf up; use (255 - i)
-            uint256 bit = (keyInt >> (255 - i)) & 1;
-            if (bit == 1) {
+
+        // Walk up from the leaf; counting down from proof.length also covers a single-leaf tree (no siblings)
+        for (uint256 i = proof.length; i > 0; --i) {
+            bytes32 sibling = proof[i - 1];
+            if ((keyInt >> (i - 1)) & 1 == 1) {
                 // current node is on the right, sibling is left
                 computed = keccak256(abi.encodePacked(sibling, computed));
             } else {
@@ -44,17 +46,42 @@ library SparseMerkleProof {
     /// @notice Verify inclusion: given root, key, value and proof, verify leaf is in tree.
     /// @param root expected root
     /// @param key leaf key (bytes32)
-    /// @param value leaf value (bytes) — caller decides how to serialize; here we pass hashed leaf in caller
-    /// @param proof sibling array
+    /// @param value leaf value (bytes32)
+    /// @param proof siblings from the root level down
     /// @return true if proof computes to root
     function verifyInclusion(bytes32 root, bytes32 key, bytes32 value, bytes32[] memory proof)
         internal
         pure
         returns (bool)
     {
-        // Example leaf hashing scheme: keccak256(abi.encodePacked(key, value))
-        // You can change the leaf encoding to match your tree builder.
-        bytes32 leafHash = keccak256(abi.encodePacked(key, value));
-        return computeRootFromProof(leafHash, key, proof) == root;
+        return computeRootFromProof(hashLeaf(key, value), key, proof) == root;
+    }
+
+    /// @notice Verify non-inclusion: key has no leaf in the tree.
+    /// @dev The path of key ends either in an empty subtree (matchingKey == 0) or in the leaf of another
+    ///      key that shares the first proof.length path bits (matchingKey, matchingValue).
+    /// @param root expected root
+    /// @param key absent leaf key
+    /// @param matchingKey key of the leaf found on the path, or zero if the path ends in an empty subtree
+    /// @param matchingValue value of that leaf (ignored when matchingKey is zero)
+    /// @param proof siblings from the root level down
+    /// @return true if key is provably absent under root
+    function verifyNonInclusion(
+        bytes32 root,
+        bytes32 key,
+        bytes32 matchingKey,
+        bytes32 matchingValue,
+        bytes32[] memory proof
+    ) internal pure returns (bool) {
+        bytes32 node;
+        if (matchingKey != bytes32(0)) {
+            if (matchingKey == key) return false;
+            // The other leaf must sit on key's path, i.e. share its lowest proof.length bits
+            if (proof.length < 256 && (uint256(matchingKey) ^ uint256(key)) & ((uint256(1) << proof.length) - 1) != 0) {
+                return false;
+            }
+            node = hashLeaf(matchingKey, matchingValue);
+        }
+        return computeRootFromProof(node, key, proof) == root;
     }
 }
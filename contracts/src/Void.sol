@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.13;
 
+import {SparseMerkleProof} from "./SparseMerkleTreeVerifier.sol";
+
 interface IERC20 {
     function allowance(address owner, address spender) external view returns (uint256);
     function transferFrom(address sender, address recipient, uint256 amount) external returns (bool);
@@ -11,7 +13,8 @@ contract Void {
     struct StateRootInfo {
         bytes32 stateRoot;
         uint256 term;
-        bytes32 signature;
+        bytes signature; // TEE EIP-712 StateRoot signature, checkable against TeeAddress off-chain
+        bytes32 liabilitiesRoot; // hash of every token's Merkle-sum root and total liabilities
     }
 
     address public TeeAddress;
@@ -21,6 +24,9 @@ contract Void {
     uint256 public pingTimeout = 2 hours; // Configurable timeout period
     StateRootInfo lastRoot;
     uint256 public challangePeriod; // Configurable timeout period
+    mapping(address => mapping(address => uint256)) public deposited; // user => token => total deposited
+    mapping(address => mapping(address => bool)) public nonInclusiveWithdrawn; // user => token => withdrawn
+    mapping(address => mapping(address => bool)) public inclusiveWithdrawn; // user => token => withdrawn
 
     event TeeRegistered(address indexed teeAddress, uint256 timestamp);
     event PingReceived(address indexed teeAddress, uint256 timestamp);
@@ -29,6 +35,7 @@ contract Void {
     event Deposited(address indexed user, uint256 amount, address tokenAddress);
     event EmergencyWithdraw(address indexed user, uint256 amount, address tokenAddress);
     event WithdrawNonInclusive(address indexed user, uint256 amount, address tokenAddress);
+    event StateRootCommitted(bytes32 indexed stateRoot, uint256 term, bytes signature, bytes32 liabilitiesRoot);
 
     modifier onlyTee() {
         require(msg.sender == TeeAddress, "Only TEE can call this");
@@ -92,12 +99,24 @@ contract Void {
         return !isTeeDead;
     }
 
+    // TEE commits its balance SMT root; emergency exits are verified against the last committed root
+    function SetState(StateRootInfo calldata root) external onlyTee whenTeeAlive {
+        require(root.term > lastRoot.term, "Term must increase");
+        lastRoot = root;
+        emit StateRootCommitted(root.stateRoot, root.term, root.signature, root.liabilitiesRoot);
+    }
+
+    function getLastRoot() external view returns (StateRootInfo memory) {
+        return lastRoot;
+    }
+
     function deposit(uint256 amount, address tokenAddress) public whenTeeAlive {
         require(amount > 0, "Amount must be greater than 0");
 
         // Transfer ERC20 tokens from user to this contract
         bool success = IERC20(tokenAddress).transferFrom(msg.sender, address(this), amount);
         require(success, "Token transfer failed");
+        deposited[msg.sender][tokenAddress] += amount;
         emit Deposited(msg.sender, amount, tokenAddress);
     }
 
@@ -112,14 +131,28 @@ contract Void {
         emit WithdrawNonInclusive(to, amount, tokenAddress);
     }
 
-    function emergencyWithdrawWithInclusive(uint256 amount, address tokenAddress)
-        public
-        whenTeeDead
-        whenChallangePeriodIsFinished
-    {
-        require(amount > 0, "Amount must be greater than 0");
+    // Balance tree leaf key of user's balance of a token, as the backend derives it: keccak256(wallet, token, nonce)
+    function leafKey(address user, address tokenAddress, bytes32 nonce) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(user, tokenAddress, nonce));
+    }
 
-        // SparseMerkleProof.computeRootFromProof()
+    // Withdraw the balance the last committed root holds for the caller: the leaf must sit under that root
+    // at the key derived from msg.sender and the revealed nonce, and its value is the amount paid
+    function emergencyWithdrawWithInclusive(
+        address tokenAddress,
+        bytes32 key,
+        bytes32 value,
+        bytes32 nonce,
+        bytes32[] calldata proof
+    ) public whenTeeDead whenChallangePeriodIsFinished {
+        uint256 amount = uint256(value);
+        require(amount > 0, "Amount must be greater than 0");
+        require(key == leafKey(msg.sender, tokenAddress, nonce), "Key does not belong to sender");
+        require(!inclusiveWithdrawn[msg.sender][tokenAddress], "Already withdrawn");
+        require(
+            SparseMerkleProof.verifyInclusion(lastRoot.stateRoot, key, value, proof), "Invalid inclusion proof"
+        );
+        inclusiveWithdrawn[msg.sender][tokenAddress] = true;
 
         bool success = IERC20(tokenAddress).transfer(msg.sender, amount);
         require(success, "Token transfer failed");
@@ -127,14 +160,28 @@ contract Void {
         emit EmergencyWithdraw(msg.sender, amount, tokenAddress);
     }
 
-    function withdrawWithNonInclusive(uint256 amount, address tokenAddress)
-        public
-        whenTeeDead
-        whenChallangePeriodIsFinished
-    {
+    // Withdraw a deposit the last committed root never credited: the caller's key for the revealed nonce must have
+    // no leaf under that root, and at most what the caller deposited into this contract is paid
+    function withdrawWithNonInclusive(
+        uint256 amount,
+        address tokenAddress,
+        bytes32 root,
+        bytes32 nonce,
+        bytes32 matchingKey,
+        bytes32 matchingValue,
+        bytes32[] calldata proof
+    ) public whenTeeDead whenChallangePeriodIsFinished {
         require(amount > 0, "Amount must be greater than 0");
-
-        // SparseMerkleProof.computeRootFromProof()
+        require(amount <= deposited[msg.sender][tokenAddress], "Amount exceeds deposits");
+        require(root == lastRoot.stateRoot, "Root is not the last committed root");
+        require(!nonInclusiveWithdrawn[msg.sender][tokenAddress], "Already withdrawn");
+        require(
+            SparseMerkleProof.verifyNonInclusion(
+                root, leafKey(msg.sender, tokenAddress, nonce), matchingKey, matchingValue, proof
+            ),
+            "Invalid non-inclusion proof"
+        );
+        nonInclusiveWithdrawn[msg.sender][tokenAddress] = true;
 
         // Transfer ERC20 tokens to the user
         bool success = IERC20(tokenAddress).transfer(msg.sender, amount);
@@ -2,49 +2,78 @@
 pragma solidity ^0.8.19;
 
 import "forge-std/Test.sol";
+import {SparseMerkleProof} from "../src/SparseMerkleTreeVerifier.sol";
 
-/// @notice Sparse Merkle Tree verifier for 256-bit keys using keccak256.
-library SparseMerkleProof {
-    function computeRootFromProof(bytes32 leafHash, bytes32 key, bytes32[] memory proof)
-        internal
-        pure
-        returns (bytes32 root)
-    {
-        bytes32 computed = leafHash;
-        uint256 keyInt = uint256(key);
-
-        for (uint256 i = proof.length - 1; i >= 0; i--) {
-            bytes32 sibling = proof[i];
-            uint256 bit = (keyInt >> i) & 1;
-
-            if (bit == 1) {
-                computed = keccak256(abi.encodePacked(sibling, computed));
-            } else {
-                computed = keccak256(abi.encodePacked(computed, sibling));
-            }
+contract SparseMerkleProofTest is Test {
+    using SparseMerkleProof for *;
 
-            if (i == 0) break; // Prevent underflow
+    // Generated by `npm run vectors` in packages/smt-verifier; its tests run the TypeScript verifier on the same file
+    string internal constant VECTORS = "test/vectors/smt-proofs.json";
+
+    function testVectorsFromBackendTrees() public view {
+        string memory json = vm.readFile(VECTORS);
+        uint256 count = vm.parseJsonUint(json, ".count");
+
+        for (uint256 i = 0; i < count; i++) {
+            string memory path = string.concat(".vectors[", vm.toString(i), "]");
+            bytes32 root = vm.parseJsonBytes32(json, string.concat(path, ".root"));
+            bytes32 key = vm.parseJsonBytes32(json, string.concat(path, ".key"));
+            bytes32 value = vm.parseJsonBytes32(json, string.concat(path, ".value"));
+            bytes32[] memory proof = vm.parseJsonBytes32Array(json, string.concat(path, ".siblings"));
+
+            assertTrue(
+                SparseMerkleProof.verifyInclusion(root, key, value, proof),
+                vm.parseJsonString(json, string.concat(path, ".name"))
+            );
+            // A different balance under the same key must not verify
+            assertFalse(SparseMerkleProof.verifyInclusion(root, key, bytes32(uint256(value) + 1), proof));
         }
+    }
 
-        root = computed;
+    function testNonInclusionVectorsFromBackendTrees() public view {
+        string memory json = vm.readFile(VECTORS);
+        uint256 count = vm.parseJsonUint(json, ".nonInclusionCount");
+
+        for (uint256 i = 0; i < count; i++) {
+            string memory path = string.concat(".nonInclusion[", vm.toString(i), "]");
+            bytes32 root = vm.parseJsonBytes32(json, string.concat(path, ".root"));
+            bytes32 key = vm.parseJsonBytes32(json, string.concat(path, ".key"));
+            bytes32 matchingKey = vm.parseJsonBytes32(json, string.concat(path, ".matchingKey"));
+            bytes32 matchingValue = vm.parseJsonBytes32(json, string.concat(path, ".matchingValue"));
+            bytes32[] memory proof = vm.parseJsonBytes32Array(json, string.concat(path, ".siblings"));
+
+            assertTrue(
+                SparseMerkleProof.verifyNonInclusion(root, key, matchingKey, matchingValue, proof),
+                vm.parseJsonString(json, string.concat(path, ".name"))
+            );
+            // The matching leaf cannot be used to claim its own key is absent
+            if (matchingKey != bytes32(0)) {
+                assertFalse(SparseMerkleProof.verifyNonInclusion(root, matchingKey, matchingKey, matchingValue, proof));
+            }
+        }
     }
 
-    function verifyInclusion(bytes32 root, bytes32 key, bytes32 value, bytes32 id, bytes32[] memory proof)
-        internal
-        pure
-        returns (bool)
-    {
-        bytes32 leafHash = keccak256(abi.encodePacked(key, value, id));
-        return computeRootFromProof(leafHash, key, proof) == root;
+    function testNonInclusionRejectsPresentKey() public view {
+        string memory json = vm.readFile(VECTORS);
+        bytes32 root = vm.parseJsonBytes32(json, ".vectors[1].root");
+        bytes32 key = vm.parseJsonBytes32(json, ".vectors[1].key");
+        bytes32[] memory proof = vm.parseJsonBytes32Array(json, ".vectors[1].siblings");
+
+        // Pretending the path ends in an empty subtree must not reproduce the root
+        assertFalse(SparseMerkleProof.verifyNonInclusion(root, key, bytes32(0), bytes32(0), proof));
     }
-}
 
-contract SparseMerkleProofTest is Test {
-    using SparseMerkleProof for *;
+    function testSingleLeafRootIsLeafHash() public pure {
+        bytes32 key = keccak256("only");
+        bytes32 value = bytes32(uint256(42));
+        bytes32[] memory proof = new bytes32[](0);
+        bytes32 leafHash = SparseMerkleProof.hashLeaf(key, value);
+
+        assertEq(SparseMerkleProof.computeRootFromProof(leafHash, key, proof), leafHash);
+    }
 
     function testVerifyInclusionWithProvidedData() public {
         // Key and Value from your data
-        bytes32 id = 0x0000000000000000000000000000000000000000000000000000000000000001;
         bytes32 key = 0xde004664e6c573ddfa2c83876b8b7934ca1d97e1b13c26bdc829bf71204451e3;
         bytes32 value = 0x331058a0bf2f5e3120811a6c1ca1f6a9575699545077b2f861c90958a6eb5187;
 
@@ -57,14 +86,13 @@ contract SparseMerkleProofTest is Test {
         proof[1] = 0x811ffae09e422cc3f191b26bd81a687aad959fc0cb5df8b5a038bd794a561246;
 
         // Verify inclusion
-        bool isValid = SparseMerkleProof.verifyInclusion(expectedRoot, key, value, id, proof);
+        bool isValid = SparseMerkleProof.verifyInclusion(expectedRoot, key, value, proof);
 
         assertTrue(isValid, "Proof verification should succeed");
     }
 
     function testVerifyInclusionWithSecondProof() public pure {
         // Key and Value from second proof data
-        bytes32 id = 0x0000000000000000000000000000000000000000000000000000000000000001;
         bytes32 key = 0x783bba0b7e7219f5c537dbd624e67b4730a119839f15125557941be73caeaa20;
         bytes32 value = 0x571c63d587e2038dbb7ff7e7f367baacd14db36a000cfe4bb3a8a18e9335a93b;
         bytes32 expectedRoot = 0x94094699af2d08b7a287954d56188e6ffe540c80f679e4fcd0c01967bbc91bf1;
@@ -80,14 +108,13 @@ contract SparseMerkleProofTest is Test {
         console.log("Expected Root:");
         console.logBytes32(expectedRoot);
 
-        bool isValid = SparseMerkleProof.verifyInclusion(expectedRoot, key, value, id, proof);
+        bool isValid = SparseMerkleProof.verifyInclusion(expectedRoot, key, value, proof);
         console.log("Proof valid:", isValid);
 
         assertTrue(isValid, "Second proof verification should succeed");
     }
 
     function testComputeRootFromSecondProof() public pure {
-        bytes32 id = 0x0000000000000000000000000000000000000000000000000000000000000001;
         bytes32 key = 0x783bba0b7e7219f5c537dbd624e67b4730a119839f15125557941be73caeaa20;
         bytes32 value = 0x571c63d587e2038dbb7ff7e7f367baacd14db36a000cfe4bb3a8a18e9335a93b;
         bytes32 expectedRoot = 0x94094699af2d08b7a287954d56188e6ffe540c80f679e4fcd0c01967bbc91bf1;
@@ -96,7 +123,7 @@ contract SparseMerkleProofTest is Test {
         proof[0] = 0x819dfa2964509c7122596502a9e6215e81eaef8a151e506e0b72c6c58469ab7c;
 
         // Compute leaf hash
-        bytes32 leafHash = keccak256(abi.encodePacked(key, value, id));
+        bytes32 leafHash = SparseMerkleProof.hashLeaf(key, value);
 
         console.log("Leaf Hash:");
         console.logBytes32(leafHash);
@@ -113,7 +140,6 @@ contract SparseMerkleProofTest is Test {
     }
 
     function testComputeRootFromProof() public pure {
-        bytes32 id = 0x0000000000000000000000000000000000000000000000000000000000000001;
         bytes32 key = 0x2f87575c663c702e1bf72cbbc735765ff9c245cd9715448221e8382c839f7693;
         bytes32 value = 0x8aefc03ee180b2211fb30d7efdade5645dd2f08370af88916365a127f5bcf890;
         bytes32 expectedRoot = 0x8d027b16732941431e4205386fc94002ba1f76060362d29fa88535cbe9bcc942;
@@ -125,7 +151,7 @@ contract SparseMerkleProofTest is Test {
         proof[3] = 0xe0ae2193217db86e7844483f2562eaa4e73da551dfabe60c3ec0103f8099c126;
 
         // Compute leaf hash
-        bytes32 leafHash = keccak256(abi.encodePacked(key, value, id));
+        bytes32 leafHash = SparseMerkleProof.hashLeaf(key, value);
 
         console.log("Leaf Hash:");
         console.logBytes32(leafHash);
@@ -142,7 +168,6 @@ contract SparseMerkleProofTest is Test {
     }
 
     function testComputeRootFromthirdProof() public pure {
-        bytes32 id = 0x0000000000000000000000000000000000000000000000000000000000000001;
         bytes32 key = 0x697de09d452fe9cfd666fc487e6f05c5d31aba48da987ea00b9fef926f87ba4b;
         bytes32 value = 0x000000000000000000000000000000000000000000000000000001d1a94a2000;
         bytes32 expectedRoot = 0x7a64801085510289e8caa7488b9cc03a2f0511859d8eeae0f3ae040c12d3cdd2;
@@ -151,7 +176,7 @@ contract SparseMerkleProofTest is Test {
         proof[0] = 0x32d1515cbdbd61df6fd84b59d87af9c29379064481e5c7261edddc26fca90d1b;
 
         // Compute leaf hash
-        bytes32 leafHash = keccak256(abi.encodePacked(key, value, id));
+        bytes32 leafHash = SparseMerkleProof.hashLeaf(key, value);
 
         console.log("Leaf Hash:");
         console.logBytes32(leafHash);
@@ -0,0 +1,163 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.13;
+
+import {Test} from "forge-std/Test.sol";
+import {Void} from "../src/Void.sol";
+import {SparseMerkleProof} from "../src/SparseMerkleTreeVerifier.sol";
+
+contract MockToken {
+    mapping(address => uint256) public balanceOf;
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+
+contract VoidTest is Test {
+    Void internal voidContract;
+    address internal tee = address(0xBEEF);
+
+    function setUp() public {
+        voidContract = new Void(tee, 2 hours, 12 hours);
+    }
+
+    function testSetStateStoresRoot() public {
+        Void.StateRootInfo memory root =
+            Void.StateRootInfo(bytes32(uint256(1)), 1, bytes("signature"), keccak256("liabilities"));
+
+        vm.prank(tee);
+        voidContract.SetState(root);
+
+        Void.StateRootInfo memory stored = voidContract.getLastRoot();
+        assertEq(stored.stateRoot, root.stateRoot);
+        assertEq(stored.term, root.term);
+        assertEq(stored.signature, root.signature);
+        assertEq(stored.liabilitiesRoot, root.liabilitiesRoot);
+    }
+
+    function testSetStateRejectsNonIncreasingTerm() public {
+        vm.startPrank(tee);
+        voidContract.SetState(Void.StateRootInfo(bytes32(uint256(1)), 2, "", bytes32(0)));
+
+        vm.expectRevert("Term must increase");
+        voidContract.SetState(Void.StateRootInfo(bytes32(uint256(2)), 2, "", bytes32(0)));
+        vm.stopPrank();
+    }
+
+    function testSetStateOnlyTee() public {
+        vm.expectRevert("Only TEE can call this");
+        voidContract.SetState(Void.StateRootInfo(bytes32(uint256(1)), 1, "", bytes32(0)));
+    }
+
+    // One-leaf trees: any other key's path ends in that leaf, with no siblings
+    bytes32 internal constant LEAF_KEY = keccak256("present");
+    bytes32 internal constant LEAF_VALUE = bytes32(uint256(42));
+    bytes32 internal constant NONCE = keccak256("nonce");
+
+    // Deposits depositAmount of a fresh token, commits a one-leaf root and lets the TEE die. The leaf is this
+    // contract's own balance of the token if ownLeaf, otherwise another wallet's.
+    function commitOneLeafRootAndKillTee(bool ownLeaf, uint256 depositAmount)
+        internal
+        returns (MockToken token, bytes32 root, bytes32 key)
+    {
+        token = new MockToken();
+        token.mint(address(voidContract), 100);
+        if (depositAmount > 0) {
+            token.mint(address(this), depositAmount);
+            voidContract.deposit(depositAmount, address(token));
+        }
+
+        key = ownLeaf ? voidContract.leafKey(address(this), address(token), NONCE) : LEAF_KEY;
+        root = SparseMerkleProof.hashLeaf(key, LEAF_VALUE);
+        vm.prank(tee);
+        voidContract.SetState(Void.StateRootInfo(root, 1, "", bytes32(0)));
+
+        vm.warp(block.timestamp + 13 hours);
+        voidContract.markDead();
+    }
+
+    function testEmergencyWithdrawWithInclusivePaysLeafValueOnce() public {
+        (MockToken token,, bytes32 key) = commitOneLeafRootAndKillTee(true, 0);
+        bytes32[] memory proof = new bytes32[](0);
+
+        voidContract.emergencyWithdrawWithInclusive(address(token), key, LEAF_VALUE, NONCE, proof);
+        assertEq(token.balanceOf(address(this)), 42);
+
+        vm.expectRevert("Already withdrawn");
+        voidContract.emergencyWithdrawWithInclusive(address(token), key, LEAF_VALUE, NONCE, proof);
+    }
+
+    function testEmergencyWithdrawWithInclusiveRejectsOtherSender() public {
+        (MockToken token,, bytes32 key) = commitOneLeafRootAndKillTee(true, 0);
+        bytes32[] memory proof = new bytes32[](0);
+
+        vm.prank(address(0xCAFE));
+        vm.expectRevert("Key does not belong to sender");
+        voidContract.emergencyWithdrawWithInclusive(address(token), key, LEAF_VALUE, NONCE, proof);
+    }
+
+    function testEmergencyWithdrawWithInclusiveRejectsInflatedValue() public {
+        (MockToken token,, bytes32 key) = commitOneLeafRootAndKillTee(true, 0);
+        bytes32[] memory proof = new bytes32[](0);
+
+        vm.expectRevert("Invalid inclusion proof");
+        voidContract.emergencyWithdrawWithInclusive(address(token), key, bytes32(uint256(100)), NONCE, proof);
+    }
+
+    function testWithdrawWithNonInclusivePaysUncreditedDepositOnce() public {
+        (MockToken token, bytes32 root,) = commitOneLeafRootAndKillTee(false, 30);
+        bytes32[] memory proof = new bytes32[](0);
+
+        voidContract.withdrawWithNonInclusive(30, address(token), root, NONCE, LEAF_KEY, LEAF_VALUE, proof);
+        assertEq(token.balanceOf(address(this)), 30);
+
+        vm.expectRevert("Already withdrawn");
+        voidContract.withdrawWithNonInclusive(30, address(token), root, NONCE, LEAF_KEY, LEAF_VALUE, proof);
+    }
+
+    function testWithdrawWithNonInclusiveRejectsNonDepositor() public {
+        (MockToken token, bytes32 root,) = commitOneLeafRootAndKillTee(false, 30);
+        bytes32[] memory proof = new bytes32[](0);
+
+        // 0xCAFE's key for NONCE is absent too, but it never deposited
+        vm.prank(address(0xCAFE));
+        vm.expectRevert("Amount exceeds deposits");
+        voidContract.withdrawWithNonInclusive(10, address(token), root, NONCE, LEAF_KEY, LEAF_VALUE, proof);
+    }
+
+    function testWithdrawWithNonInclusiveRejectsAmountAboveDeposits() public {
+        (MockToken token, bytes32 root,) = commitOneLeafRootAndKillTee(false, 30);
+        bytes32[] memory proof = new bytes32[](0);
+
+        vm.expectRevert("Amount exceeds deposits");
+        voidContract.withdrawWithNonInclusive(31, address(token), root, NONCE, LEAF_KEY, LEAF_VALUE, proof);
+    }
+
+    function testWithdrawWithNonInclusiveRejectsPresentKey() public {
+        (MockToken token, bytes32 root, bytes32 key) = commitOneLeafRootAndKillTee(true, 30);
+        bytes32[] memory proof = new bytes32[](0);
+
+        vm.expectRevert("Invalid non-inclusion proof");
+        voidContract.withdrawWithNonInclusive(10, address(token), root, NONCE, key, LEAF_VALUE, proof);
+    }
+
+    function testWithdrawWithNonInclusiveRejectsUncommittedRoot() public {
+        (MockToken token,,) = commitOneLeafRootAndKillTee(false, 30);
+        bytes32[] memory proof = new bytes32[](0);
+
+        vm.expectRevert("Root is not the last committed root");
+        voidContract.withdrawWithNonInclusive(10, address(token), bytes32(0), NONCE, bytes32(0), bytes32(0), proof);
+    }
+}
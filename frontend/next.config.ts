@@ -1,7 +1,10 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   turbopack: {
+    // The repository root, so packages/smt-verifier resolves through its symlink
+    root: path.join(__dirname, ".."),
     resolveAlias: {
       pino: "pino/browser",
       "thread-stream": "pino/browser/thread-stream",
@@ -1,11 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAccount } from "wagmi";
 import { Button } from "@/components/ui/button";
 import { EmergencyExitDialog } from "@/components/EmergencyExitDialog";
 import { fetchWalletBalances } from "@/lib/balance";
-import { AlertTriangle } from "lucide-react";
+import { ExitKit, parseExitKit } from "@/lib/exit-kit";
+import { scheduleAuthTokenRefresh } from "@/lib/sign/auth";
+import { VOID_CONTRACT_ADDRESS } from "@/components/WalletDashboard/constants";
+import { AlertTriangle, Upload } from "lucide-react";
 
 export default function EmergencyExitPage() {
   const { isConnected, address } = useAccount();
@@ -13,6 +16,42 @@ export default function EmergencyExitPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [exitKit, setExitKit] = useState<ExitKit | null>(null);
+  const [kitError, setKitError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load a kit saved with "Download exit kit"; it works without the backend
+  const handleImportKit = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setKitError(null);
+      const kit = parseExitKit(await file.text());
+
+      if (address && kit.wallet.toLowerCase() !== address.toLowerCase()) {
+        throw new Error("Exit kit belongs to a different wallet");
+      }
+      if (kit.contract.toLowerCase() !== VOID_CONTRACT_ADDRESS.toLowerCase()) {
+        throw new Error("Exit kit was made for a different Void contract");
+      }
+
+      setExitKit(kit);
+      setDialogOpen(true);
+    } catch (err) {
+      setExitKit(null);
+      setKitError(err instanceof Error ? err.message : "Failed to import exit kit");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  // Access tokens are short-lived; keep them fresh while the exit page is open
+  useEffect(() => {
+    if (!isConnected) {
+      return;
+    }
+    return scheduleAuthTokenRefresh();
+  }, [isConnected]);
 
   useEffect(() => {
     const loadTokens = async () => {
@@ -72,18 +111,6 @@ export default function EmergencyExitPage() {
       <div className="relative z-10 flex flex-col items-center justify-center gap-6">
         {isLoading ? (
           <div className="text-white/60">Loading...</div>
-        ) : error ? (
-          <div className="text-center max-w-md">
-            <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-            <p className="text-red-500 mb-4">{error}</p>
-            <Button
-              onClick={() => window.location.reload()}
-              variant="outline"
-              className="border-white/20 text-white hover:bg-white/10"
-            >
-              Retry
-            </Button>
-          </div>
         ) : (
           <>
             <div className="text-center mb-4">
@@ -95,6 +122,23 @@ export default function EmergencyExitPage() {
               </p>
             </div>
 
+            {/* The backend may be gone; an imported exit kit still works */}
+            {error && !exitKit && (
+              <div className="text-center max-w-md">
+                <p className="text-red-500 mb-2">{error}</p>
+                <p className="text-white/60 text-sm mb-4">
+                  Import your exit kit to withdraw without the backend.
+                </p>
+                <Button
+                  onClick={() => window.location.reload()}
+                  variant="outline"
+                  className="border-white/20 text-white hover:bg-white/10"
+                >
+                  Retry
+                </Button>
+              </div>
+            )}
+
             <Button
               onClick={() => setDialogOpen(true)}
               size="lg"
@@ -104,8 +148,28 @@ export default function EmergencyExitPage() {
               Emergency Exit
             </Button>
 
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImportKit(e.target.files?.[0])}
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+              className="border-white/20 text-white hover:bg-white/10"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {exitKit
+                ? `Exit kit loaded (term ${exitKit.root.term ?? "uncommitted"})`
+                : "Import exit kit"}
+            </Button>
+            {kitError && <p className="text-sm text-red-500">{kitError}</p>}
+
             <EmergencyExitDialog
               tokens={tokens}
+              exitKit={exitKit}
               open={dialogOpen}
               onOpenChange={setDialogOpen}
               onSuccess={async () => {
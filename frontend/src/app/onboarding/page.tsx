@@ -5,8 +5,13 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import { DecryptedText } from "@/components/DecryptedText";
-import { useSignMessage } from "wagmi";
-import { readPersistedAuthToken } from "@/lib/sign/auth";
+import { useAccount, useSignTypedData } from "wagmi";
+import { authorizedFetch, readPersistedAuthToken } from "@/lib/sign/auth";
+import {
+  buildOnboardingTypedData,
+  SECRET_VERSION,
+} from "@/lib/sign/typed-data";
+import { persistSecretVersion } from "@/lib/sign/secrets";
 import {
   Shield,
   Lock,
@@ -88,40 +93,29 @@ export default function OnboardingPage() {
   const [isShieldingTx, setIsShieldingTx] = useState(false);
   const [shieldedTx, setShieldedTx] = useState(false);
 
-  const { signMessageAsync } = useSignMessage();
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
 
-  const submitSecret = async (
-    signature: string,
-    message: string,
-    type: "balance" | "transaction"
-  ) => {
+  const submitOnboarding = async (signature: string) => {
     try {
-      const token = readPersistedAuthToken();
       const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
 
-      if (!token || !baseUrl) {
+      if (!readPersistedAuthToken() || !baseUrl) {
         throw new Error("Authentication or API URL missing");
       }
 
-      const endpoint =
-        type === "balance"
-          ? "/api/wallet/set-balance-secret"
-          : "/api/wallet/set-tx-secret";
-
-      const response = await fetch(`${baseUrl}${endpoint}`, {
+      const response = await authorizedFetch(`${baseUrl}/api/wallet/onboard`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          message,
           signature,
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to submit ${type} secret`);
+        throw new Error("Failed to submit onboarding signature");
       }
 
       return await response.json();
@@ -131,43 +125,34 @@ export default function OnboardingPage() {
     }
   };
 
+  // One signature sets up both balance and transaction secrets; step 2 completes on its own
   const handlePart1Next = async () => {
+    if (!address) return;
     setIsShielding(true);
-    const message = "Cloak Wallet Balances Secret";
 
     try {
-      const signature = await signMessageAsync({ message });
+      const signature = await signTypedDataAsync(
+        buildOnboardingTypedData(address)
+      );
 
-      // Submit signature to backend
-      await submitSecret(signature, message, "balance");
+      const result = await submitOnboarding(signature);
+      persistSecretVersion(result?.data?.version ?? SECRET_VERSION);
 
       setShielded(true);
       setTimeout(() => {
         setActivePart(2);
+        setIsShieldingTx(true);
       }, 750);
-    } catch (error) {
-      console.error("Failed to process step 1:", error);
-      setIsShielding(false);
-    }
-  };
-
-  const handlePart2Next = async () => {
-    setIsShieldingTx(true);
-    const message = "Cloak Wallet Transactions Secret";
-
-    try {
-      const signature = await signMessageAsync({ message });
-
-      // Submit signature to backend
-      await submitSecret(signature, message, "transaction");
-
-      setShieldedTx(true);
+      setTimeout(() => {
+        setIsShieldingTx(false);
+        setShieldedTx(true);
+      }, 1500);
       setTimeout(() => {
         router.push("/");
-      }, 750);
+      }, 2250);
     } catch (error) {
-      console.error("Failed to process step 2:", error);
-      setIsShieldingTx(false);
+      console.error("Failed to complete onboarding:", error);
+      setIsShielding(false);
     }
   };
 
@@ -419,8 +404,7 @@ export default function OnboardingPage() {
 
             <div className="mt-8 flex justify-end">
               <Button
-                onClick={handlePart2Next}
-                disabled={isShieldingTx || shieldedTx}
+                disabled
                 className={`h-12 px-8 font-semibold text-sm rounded-full flex items-center gap-2 transition-all duration-300
                   ${shieldedTx
                     ? "bg-emerald-500 text-white hover:bg-emerald-600"
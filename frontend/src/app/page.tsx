@@ -12,11 +12,18 @@ import { SignMessageSection } from "@/components/SignMessageSection";
 import { WalletDashboard } from "@/components/WalletDashboard";
 import { NotificationMock } from "@/components/NotificationMock";
 import { EmergencyExitDialog } from "@/components/EmergencyExitDialog";
+import { ExitKitButton } from "@/components/ExitKitButton";
 import {
   readPersistedAuthToken,
   validateTokenWallet,
   clearAuthToken,
+  getValidAuthToken,
+  scheduleAuthTokenRefresh,
 } from "@/lib/sign/auth";
+import {
+  persistSecretGeneration,
+  persistSecretVersion,
+} from "@/lib/sign/secrets";
 import { fetchWalletBalances } from "@/lib/balance";
 import {
   VOID_CONTRACT_ADDRESS,
@@ -75,14 +82,9 @@ export default function Dashboard() {
     }
 
     const checkAuth = async () => {
-      const token = readPersistedAuthToken();
-      if (!token) {
-        setTimeout(() => setIsAppLoading(false), 700);
-        return;
-      }
-
-      // Validate token wallet address matches connected address
-      if (address && !validateTokenWallet(token, address)) {
+      const storedToken = readPersistedAuthToken();
+      // Wallet check on the stored token first, so another wallet's session is never refreshed
+      if (storedToken && address && !validateTokenWallet(storedToken, address)) {
         console.warn(
           "Token wallet address does not match connected wallet. Clearing token..."
         );
@@ -92,6 +94,12 @@ export default function Dashboard() {
         return;
       }
 
+      const token = storedToken ? await getValidAuthToken() : null;
+      if (!token) {
+        setTimeout(() => setIsAppLoading(false), 700);
+        return;
+      }
+
       try {
         const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
         if (!baseUrl) throw new Error("Base URL missing");
@@ -105,6 +113,9 @@ export default function Dashboard() {
         if (response.ok) {
           const data = await response.json();
           if (data.success) {
+            // Remembered so the emergency exit can re-derive the balance secret without the backend
+            persistSecretVersion(data.data?.secret_version);
+            persistSecretGeneration(data.data?.secret_generation);
             if (data.data?.required_secrets?.length > 0) {
               router.push("/onboarding");
               return;
@@ -129,6 +140,14 @@ export default function Dashboard() {
     checkAuth();
   }, [router, isConnected, address]);
 
+  // Access tokens are short-lived; keep them fresh while the dashboard is open
+  useEffect(() => {
+    if (!isSigned) {
+      return;
+    }
+    return scheduleAuthTokenRefresh();
+  }, [isSigned]);
+
   // Check user profile after signing
   const handleSignSuccess = async () => {
     setIsAppLoading(true); // Show loading while checking profile
@@ -153,6 +172,8 @@ export default function Dashboard() {
       }
 
       const data = await response.json();
+      persistSecretVersion(data.data?.secret_version);
+      persistSecretGeneration(data.data?.secret_generation);
 
       // If required array is not empty, redirect to onboarding
       if (data.success && data.data?.required_secrets?.length > 0) {
@@ -234,6 +255,7 @@ export default function Dashboard() {
           <div className="flex items-center gap-4">
             <NotificationMock />
             <PublicWallet isAppLoading={isAppLoading} />
+            {isSigned && <ExitKitButton />}
             {(isSigned || isTeeDead === true) && (
               <EmergencyExitDialog
                 tokens={tokens}
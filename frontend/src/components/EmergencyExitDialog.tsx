@@ -14,7 +14,8 @@ import {
 } from "@/components/ui/dialog";
 import {
   useAccount,
-  useSignMessage,
+  usePublicClient,
+  useSignTypedData,
   useWriteContract,
   useWaitForTransactionReceipt,
 } from "wagmi";
@@ -22,7 +23,28 @@ import { parseUnits, type Address } from "viem";
 import { baseSepolia } from "viem/chains";
 import { concat, getBytes, keccak256 } from "ethers";
 import { getLatestTransactionProof } from "@/lib/emergency-withdraw";
-import { BalanceProof, TokenBalance } from "@/lib/balance";
+import {
+  buildOnboardingTypedData,
+  buildRotationTypedData,
+  buildSecretTypedData,
+} from "@/lib/sign/typed-data";
+import {
+  SecretVersion,
+  balanceLeafKey,
+  deriveVersionedSecret,
+  persistSecretVersion,
+  readSecretGeneration,
+  readSecretVersion,
+} from "@/lib/sign/secrets";
+import {
+  BalanceProof,
+  NonInclusionProof,
+  TokenBalance,
+  fetchAccountProof,
+  verifyLiabilityProof,
+} from "@/lib/balance";
+import { ExitKit } from "@/lib/exit-kit";
+import { verifyNonInclusion } from "smt-verifier";
 import {
   VOID_CONTRACT_ADDRESS,
   VOID_CONTRACT_ABI,
@@ -31,8 +53,13 @@ import {
 import { Asset } from "@/components/WalletDashboard/types";
 import { TokenSelector } from "@/components/WalletDashboard/ui/TokenSelector";
 
+const toBytes32 = (hex: string) =>
+  `0x${hex.replace(/^0x/, "").padStart(64, "0")}` as `0x${string}`;
+
 interface EmergencyExitDialogProps {
   tokens?: Asset[];
+  // Imported exit kit; when set, tokens, proofs and the nonce come from it instead of localStorage
+  exitKit?: ExitKit | null;
   onSuccess?: () => Promise<void> | void;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
@@ -40,12 +67,14 @@ interface EmergencyExitDialogProps {
 
 export function EmergencyExitDialog({
   tokens,
+  exitKit,
   onSuccess,
   open: controlledOpen,
   onOpenChange: controlledOnOpenChange,
 }: EmergencyExitDialogProps) {
   const { address } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { signTypedDataAsync } = useSignTypedData();
+  const publicClient = usePublicClient({ chainId: baseSepolia.id });
   const [internalOpen, setInternalOpen] = useState(false);
 
   // Use controlled state if provided, otherwise use internal state
@@ -60,6 +89,18 @@ export function EmergencyExitDialog({
   const [isSigning, setIsSigning] = useState(false);
   const [nonce, setNonce] = useState<string | null>(null);
   const [proof, setProof] = useState<BalanceProof | null>(null);
+  // Set when the backend proves this wallet has no leaf for the token (e.g. an uncredited deposit)
+  const [nonInclusion, setNonInclusion] = useState<{
+    proof: NonInclusionProof;
+    term: number | null;
+    decimals: number;
+  } | null>(null);
+  const [isCheckingProof, setIsCheckingProof] = useState(false);
+  // Derivation of the secret the fetched proof's key was built with; older than the stored one after a rotation
+  const [derivation, setDerivation] = useState<{
+    version: SecretVersion;
+    generation: number;
+  } | null>(null);
   const hasCalledOnSuccessRef = useRef(false);
   const onSuccessRef = useRef(onSuccess);
 
@@ -171,19 +212,64 @@ export function EmergencyExitDialog({
     }
   }, []);
 
-  // Use provided tokens or tokens from localStorage
-  const availableTokens = tokens && tokens.length > 0 ? tokens : tokensFromStorage;
+  const tokensFromKit = useMemo(() => {
+    if (!exitKit) return [];
+
+    return exitKit.tokens.map((entry) => {
+      const supportedToken = SUPPORTED_TOKENS.find(
+        (t) => t.address?.toLowerCase() === entry.token.toLowerCase()
+      );
+      return {
+        address: entry.token,
+        symbol: supportedToken?.symbol || "UNKNOWN",
+        name: supportedToken?.name || "Unknown Token",
+        amount: parseFloat(entry.balance) || 0,
+        value: 0,
+        logo: undefined,
+      } as Asset;
+    });
+  }, [exitKit]);
+
+  // Use the imported kit, then provided tokens, then tokens from localStorage
+  const availableTokens = exitKit
+    ? tokensFromKit
+    : tokens && tokens.length > 0
+      ? tokens
+      : tokensFromStorage;
 
   const selectedToken = availableTokens.find(
     (t) => t.address?.toLowerCase() === selectedTokenAddress?.toLowerCase()
   );
 
+  const kitEntry = exitKit?.tokens.find(
+    (entry) => entry.token.toLowerCase() === selectedTokenAddress?.toLowerCase()
+  );
+
+  // The kit carries the nonce, so no signature is needed when one is imported
+  const effectiveNonce = exitKit ? exitKit.nonce : nonce;
+
   // Load proof from localStorage when dialog opens or token changes
   useEffect(() => {
     if (open) {
       // Clear error when dialog opens
       setError(null);
-      if (selectedTokenAddress) {
+      setNonInclusion(null);
+      setDerivation(null);
+      if (exitKit) {
+        const entry = exitKit.tokens.find(
+          (t) => t.token.toLowerCase() === selectedTokenAddress?.toLowerCase()
+        );
+        setProof(
+          entry
+            ? {
+              root: exitKit.root.stateRoot,
+              siblings: entry.siblings,
+              key: entry.key,
+              value: entry.value,
+            }
+            : null
+        );
+      } else if (selectedTokenAddress) {
         // Get the actual token address (handle native token)
         const tokenAddress =
           selectedTokenAddress === "0x0000000000000000000000000000000000000000"
@@ -220,7 +306,7 @@ export function EmergencyExitDialog({
         setProof(null);
       }
     }
-  }, [open, selectedTokenAddress]);
+  }, [open, selectedTokenAddress, exitKit]);
 
   // Write contract for emergency withdraw
   const {
@@ -238,26 +324,74 @@ export function EmergencyExitDialog({
 
   // Handle sign message
   const handleSignMessage = async () => {
-    if (!signMessageAsync || !address) {
+    if (!signTypedDataAsync || !address) {
       setError("Wallet not connected");
       return;
     }
 
+    // Smart-contract wallets sign differently every time, so the backend gave them a random
+    // secret instead of deriving it; only the exit kit holds it
+    const smartWalletError =
+      "Smart-contract wallets cannot re-derive their secret by signing. Import your exit kit instead.";
+
     try {
       setIsSigning(true);
       setError(null);
 
-      const message = "Cloak Wallet Balances Secret";
-      const signedMessage = await signMessageAsync({ message });
+      const code = await publicClient?.getCode({ address });
+      if (code && code !== "0x") {
+        setError(smartWalletError);
+        return;
+      }
+
+      // Re-sign the message the secret was derived from: the last rotation or the onboarding message
+      // for versioned secrets, the balance secret message for wallets onboarded before them.
+      // The fetched proof's derivation, or else the stored one, is only a hint (the stored one is missing
+      // in a browser that never signed in), so the other version is tried if the first does not reproduce
+      // the loaded proof's key.
+      const hinted = derivation?.version ?? readSecretVersion();
+      const generation = derivation?.generation ?? readSecretGeneration();
+      const versions: SecretVersion[] =
+        hinted === "v1" ? ["v1", "legacy"] : ["legacy", "v1"];
+
+      for (const version of versions) {
+        const signedMessage = await signTypedDataAsync(
+          version !== "v1"
+            ? buildSecretTypedData("SetBalanceSecret", address)
+            : generation > 0
+              ? buildRotationTypedData(address, generation)
+              : buildOnboardingTypedData(address)
+        );
+        // Anything but a 65-byte ECDSA signature (e.g. EIP-6492 wrapped) comes from a contract wallet
+        if (signedMessage.length !== 132) {
+          setError(smartWalletError);
+          return;
+        }
 
-      // Slice first 130 characters as per user's code
-      const sig = signedMessage.slice(0, 130);
-      setSignature(sig);
+        // Slice first 130 characters as per user's code
+        const sig = signedMessage.slice(0, 130);
+        const nonceValue =
+          version === "v1"
+            ? await deriveVersionedSecret(sig, address, "balance")
+            : keccak256(getBytes(sig));
+
+        const provenKey = proof?.key ?? nonInclusion?.proof.key;
+        const matchesProof =
+          !provenKey ||
+          !selectedTokenAddress ||
+          balanceLeafKey(address, selectedTokenAddress, nonceValue) ===
+            toBytes32(provenKey).toLowerCase();
+        if (matchesProof) {
+          persistSecretVersion(version);
+          setSignature(sig);
+          setNonce(nonceValue);
+          return;
+        }
+      }
 
-      // Calculate nonce from signature
-      const signatureBytes = getBytes(sig);
-      const nonceValue = keccak256(signatureBytes);
-      setNonce(nonceValue);
+      setError(
+        "Neither secret derivation reproduces this token's proof. Import your exit kit instead."
+      );
     } catch (err) {
       console.error("Failed to sign message:", err);
       setError(err instanceof Error ? err.message : "Failed to sign message");
@@ -266,9 +400,118 @@ export function EmergencyExitDialog({
     }
   };
 
+  // Ask the backend which proof holds for this token under the last committed root
+  const handleCheckNonInclusion = async () => {
+    if (!selectedTokenAddress) return;
+
+    try {
+      setIsCheckingProof(true);
+      setError(null);
+
+      const result = await fetchAccountProof(selectedTokenAddress);
+      if (result.secretVersion && typeof result.secretGeneration === "number") {
+        setDerivation({
+          version: result.secretVersion,
+          generation: result.secretGeneration,
+        });
+      }
+
+      if (result.type === "inclusion") {
+        // The wallet does have a leaf, so the inclusion path applies
+        if (
+          result.liabilitiesRoot &&
+          !verifyLiabilityProof(
+            selectedTokenAddress,
+            result.proof,
+            result.liabilitiesRoot,
+            result.liabilities ?? []
+          )
+        ) {
+          throw new Error("Balance is not counted in the committed liabilities");
+        }
+        setProof({
+          root: toBytes32(result.proof.root),
+          siblings: result.proof.siblings.map(toBytes32),
+          key: toBytes32(result.proof.key),
+          value: toBytes32(result.proof.value),
+        });
+        return;
+      }
+
+      const { root, key, siblings, matchingEntry } = result.proof;
+      const isValid = verifyNonInclusion(
+        toBytes32(root),
+        toBytes32(key),
+        siblings.map(toBytes32),
+        matchingEntry && {
+          key: toBytes32(matchingEntry.key),
+          value: toBytes32(matchingEntry.value),
+        }
+      );
+      if (!isValid) {
+        throw new Error("Non-inclusion proof does not match its root");
+      }
+
+      setNonInclusion({
+        proof: result.proof,
+        term: result.term,
+        decimals: result.decimals,
+      });
+      setWithdrawAmount("");
+    } catch (err) {
+      console.error("Failed to check non-inclusion:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch proof");
+    } finally {
+      setIsCheckingProof(false);
+    }
+  };
+
+  // Withdraw a deposit the state never credited; the amount is what the user deposited
+  const handleNonInclusionWithdraw = () => {
+    if (!selectedToken || !nonInclusion || !withdrawAmount) {
+      setError("Enter the deposited amount first");
+      return;
+    }
+
+    // The contract derives the absent key from the wallet and the nonce, checks the proof against its
+    // last committed root and pays at most what the wallet deposited
+    const { root, key, siblings, matchingEntry } = nonInclusion.proof;
+    if (
+      !effectiveNonce ||
+      !address ||
+      balanceLeafKey(address, selectedToken.address as string, effectiveNonce) !==
+        toBytes32(key).toLowerCase()
+    ) {
+      setError("Sign the message first so the contract can derive this token's key");
+      return;
+    }
+
+    try {
+      setError(null);
+      writeContract({
+        address: VOID_CONTRACT_ADDRESS,
+        abi: VOID_CONTRACT_ABI,
+        functionName: "withdrawWithNonInclusive",
+        args: [
+          parseUnits(withdrawAmount, nonInclusion.decimals),
+          selectedToken.address as Address,
+          toBytes32(root),
+          toBytes32(effectiveNonce),
+          toBytes32(matchingEntry?.key ?? "0x0"),
+          toBytes32(matchingEntry?.value ?? "0x0"),
+          siblings.map(toBytes32),
+        ],
+        chainId: baseSepolia.id,
+      });
+    } catch (err) {
+      console.error("Non-inclusion withdraw failed:", err);
+      setError(err instanceof Error ? err.message : "Non-inclusion withdraw failed");
+    }
+  };
+
   // Handle emergency withdraw
   const handleEmergencyWithdraw = async () => {
-    if (!selectedToken || !withdrawAmount || !nonce || !proof || !address) {
+    if (!selectedToken || !withdrawAmount || !effectiveNonce || !proof || !address) {
       setError("Please fill all fields and sign the message first");
       return;
     }
@@ -281,8 +524,8 @@ export function EmergencyExitDialog({
           ? "0x0000000000000000000000000000000000000000"
           : (selectedToken.address as Address);
 
-      const decimals = selectedToken.symbol === "ETH" ? 18 : 6;
-      const amount = parseUnits(withdrawAmount, decimals);
+      // The contract pays the proven leaf value to the wallet whose key it derives from the nonce
+      const nonce = effectiveNonce;
 
       // Ensure nonce is in bytes32 format (0x prefix + 64 hex chars)
       let nonceBytes32: `0x${string}`;
@@ -349,7 +592,13 @@ export function EmergencyExitDialog({
         address: VOID_CONTRACT_ADDRESS,
         abi: VOID_CONTRACT_ABI,
         functionName: "emergencyWithdrawWithInclusive",
-        args: [amount, tokenAddress, nonceBytes32, proofBytes32],
+        args: [
+          tokenAddress,
+          toBytes32(proof.key),
+          toBytes32(proof.value),
+          nonceBytes32,
+          proofBytes32,
+        ],
         chainId: baseSepolia.id,
       });
     } catch (err) {
@@ -386,6 +635,7 @@ export function EmergencyExitDialog({
           setSignature(null);
           setNonce(null);
           setProof(null);
+          setNonInclusion(null);
           hasCalledOnSuccessRef.current = false;
         }, 300);
         return () => clearTimeout(resetTimer);
@@ -414,20 +664,25 @@ export function EmergencyExitDialog({
       selectedToken &&
       withdrawAmount &&
       parseFloat(withdrawAmount) > 0 &&
-      signature &&
-      nonce &&
+      (exitKit || signature) &&
+      effectiveNonce &&
       proof !== null
     );
-  }, [selectedToken, withdrawAmount, signature, nonce, proof]);
+  }, [selectedToken, withdrawAmount, signature, exitKit, effectiveNonce, proof]);
 
   const maxAmount = selectedToken?.amount || 0;
 
   // Automatically set amount to maximum when token is selected
   useEffect(() => {
-    if (selectedToken && maxAmount > 0) {
+    // Non-inclusion withdrawals use the amount the user enters
+    if (nonInclusion) return;
+    if (kitEntry) {
+      // Exact balance as of the kit's root, so the amount matches the proven leaf
+      setWithdrawAmount(kitEntry.balance);
+    } else if (selectedToken && maxAmount > 0) {
       setWithdrawAmount(maxAmount.toString());
     }
-  }, [selectedToken, maxAmount]);
+  }, [selectedToken, maxAmount, kitEntry, nonInclusion]);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -493,7 +748,14 @@ export function EmergencyExitDialog({
             <label className="text-sm font-medium text-white/80">
               Step 1: Sign Message
             </label>
-            {!signature ? (
+            {exitKit ? (
+              <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/20 rounded-md">
+                <Check className="w-4 h-4 text-green-500" />
+                <span className="text-sm text-green-500">
+                  Nonce loaded from exit kit
+                </span>
+              </div>
+            ) : !signature ? (
               <Button
                 onClick={handleSignMessage}
                 disabled={isSigning}
@@ -525,16 +787,58 @@ export function EmergencyExitDialog({
               <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/20 rounded-md">
                 <Check className="w-4 h-4 text-green-500" />
                 <span className="text-sm text-green-500">
-                  Proof loaded from localStorage ({proof.siblings?.length || 0}{" "}
-                  siblings)
+                  {exitKit
+                    ? `Proof loaded from exit kit (term ${exitKit.root.term ?? "uncommitted"})`
+                    : `Proof loaded from localStorage (${proof.siblings?.length || 0} siblings)`}
                 </span>
               </div>
+            ) : nonInclusion ? (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/20 rounded-md">
+                  <Check className="w-4 h-4 text-green-500" />
+                  <span className="text-sm text-green-500">
+                    Verified: no balance leaf for this token at term{" "}
+                    {nonInclusion.term ?? "uncommitted"}
+                  </span>
+                </div>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="Deposited amount"
+                  value={withdrawAmount}
+                  onChange={(e) => setWithdrawAmount(e.target.value)}
+                  className="w-full h-10 px-3 rounded-md bg-white/5 border border-white/10 text-white placeholder:text-white/40"
+                />
+                <Button
+                  onClick={handleNonInclusionWithdraw}
+                  disabled={
+                    !withdrawAmount || !effectiveNonce || isWithdrawPending || isConfirming
+                  }
+                  className="w-full bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Withdraw Uncredited Deposit
+                </Button>
+              </div>
             ) : (
-              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
-                <AlertTriangle className="w-4 h-4 text-red-500" />
-                <span className="text-sm text-red-500">
-                  No proof found in localStorage
-                </span>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+                  <AlertTriangle className="w-4 h-4 text-red-500" />
+                  <span className="text-sm text-red-500">
+                    {exitKit
+                      ? "Exit kit has no proof for this token"
+                      : "No proof found in localStorage"}
+                  </span>
+                </div>
+                {/* A deposit that was never credited has no leaf; prove that instead */}
+                {!exitKit && selectedTokenAddress && (
+                  <Button
+                    onClick={handleCheckNonInclusion}
+                    disabled={isCheckingProof}
+                    className="w-full bg-white/5 hover:bg-white/10 border border-white/10"
+                  >
+                    {isCheckingProof ? "Checking..." : "Check for non-inclusion proof"}
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { downloadExitKit, fetchExitKit } from "@/lib/exit-kit";
+
+// Saves the proofs needed for an emergency exit, so funds can be withdrawn even if the backend is gone
+export function ExitKitButton() {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true);
+      setError(null);
+      downloadExitKit(await fetchExitKit());
+    } catch (err) {
+      console.error("Failed to download exit kit:", err);
+      setError(err instanceof Error ? err.message : "Failed to download exit kit");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleDownload}
+      disabled={isDownloading}
+      title={error ?? "Download the proofs needed for an emergency exit"}
+      className={`h-10 px-4 text-sm uppercase tracking-wider text-white hover:bg-zinc-900 hover:cursor-pointer border ${error ? "border-red-500/40" : "border-white/20"}`}
+    >
+      <Download className="w-4 h-4 mr-2" />
+      {isDownloading ? "Preparing..." : "Download exit kit"}
+    </Button>
+  );
+}
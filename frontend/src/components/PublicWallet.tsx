@@ -4,7 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
 import { useAccount, useDisconnect, useEnsAvatar, useEnsName } from "wagmi";
-import { clearAuthToken } from "@/lib/sign/auth";
+import { logout } from "@/lib/sign/auth";
 
 function truncateAddress(address?: string) {
   if (!address) return "";
@@ -23,7 +23,7 @@ export function PublicWallet({ isAppLoading }: { isAppLoading: boolean }) {
   const shouldShowAvatar = Boolean(avatarUrl);
 
   const handleDisconnect = () => {
-    clearAuthToken();
+    void logout();
     disconnect();
   };
 
@@ -3,7 +3,7 @@
 import { useCallback, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
-  buildLoginMessage,
+  fetchLoginMessage,
   submitSignatureToBackend,
   shouldBypassSignatureSubmission,
   type SignatureSubmissionResult,
@@ -83,9 +83,9 @@ export function SignMessageSection({
     resetFeedback();
 
     const timestamp = Date.now();
-    const message = buildLoginMessage(timestamp);
 
     try {
+      const { message } = await fetchLoginMessage(address!);
       const signature = await signMessageAsync({ message });
       setSignatureState({ message, signature, timestamp });
       setSubmissionStatus("pending");
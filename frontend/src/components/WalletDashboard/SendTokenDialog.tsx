@@ -11,12 +11,15 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import { useAccount, useSignMessage } from "wagmi";
+import { useAccount, useSignTypedData } from "wagmi";
 import { getTokenLogoUrl } from "@/lib/utils";
 import {
+    fetchTransferDomain,
     submitTransferSignature,
     type SendTransaction,
 } from "@/lib/sign/transfer";
+import { buildDeadline, buildVoidDomain, VOID_TYPES } from "@/lib/sign/typed-data";
+import { type Address } from "viem";
 import { Asset } from "./types";
 
 export function SendTokenDialog({
@@ -42,7 +45,7 @@ export function SendTokenDialog({
     const [sendError, setSendError] = useState<string | null>(null);
     const [sendSuccess, setSendSuccess] = useState(false);
 
-    const { signMessageAsync } = useSignMessage();
+    const { signTypedDataAsync } = useSignTypedData();
 
     // Filter tokens based on search query
     const filteredTokens = useMemo(() => {
@@ -76,7 +79,7 @@ export function SendTokenDialog({
     }, [open]);
 
     const handleSendTransaction = async () => {
-        if (!address || !signMessageAsync) {
+        if (!address || !signTypedDataAsync) {
             setSendError("Wallet not connected");
             return;
         }
@@ -92,6 +95,7 @@ export function SendTokenDialog({
         setSendSuccess(false);
 
         try {
+            const domain = await fetchTransferDomain();
             const sendTransaction: SendTransaction = {
                 from: address,
                 to: recipientAddress,
@@ -99,10 +103,23 @@ export function SendTokenDialog({
                     selectedToken?.address ||
                     "0x0000000000000000000000000000000000000000",
                 amount: amount,
+                nonce: domain.nonce,
+                deadline: buildDeadline(),
             };
 
-            const message = JSON.stringify(sendTransaction);
-            const signature = await signMessageAsync({ message });
+            const signature = await signTypedDataAsync({
+                domain: buildVoidDomain(domain.chainId, domain.contract),
+                types: VOID_TYPES,
+                primaryType: "Transfer",
+                message: {
+                    ...sendTransaction,
+                    from: sendTransaction.from as Address,
+                    to: sendTransaction.to as Address,
+                    token: sendTransaction.token as Address,
+                    nonce: BigInt(sendTransaction.nonce),
+                    deadline: BigInt(sendTransaction.deadline),
+                },
+            });
             const result = await submitTransferSignature(sendTransaction, signature);
 
             if (result.success) {
@@ -13,14 +13,34 @@ import {
 } from "@/components/ui/dialog";
 import {
   useAccount,
+  useSignTypedData,
 } from "wagmi";
 import { type Address } from "viem";
 import { getTokenLogoUrl } from "@/lib/utils";
-import { withdrawFromWallet } from "@/lib/wallet";
+import {
+  fetchWithdrawal,
+  isFinalWithdrawalStatus,
+  withdrawFromWallet,
+  type Withdrawal,
+  type WithdrawalStatus,
+} from "@/lib/wallet";
+import { fetchTransferDomain } from "@/lib/sign/transfer";
+import { buildDeadline, buildVoidDomain, VOID_TYPES } from "@/lib/sign/typed-data";
 
 import { TokenSelector } from "./ui/TokenSelector";
 import { Asset } from "./types";
 
+const WITHDRAWAL_STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  requested: "Queued",
+  debited: "Preparing transaction",
+  broadcast: "Waiting for confirmation",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  refunded: "Refunded",
+};
+
+const WITHDRAWAL_POLL_INTERVAL_MS = 3000;
+
 export function WithdrawDialog({
   tokens,
   onSuccess,
@@ -29,6 +49,7 @@ export function WithdrawDialog({
   onSuccess?: () => Promise<void> | void;
 }) {
   const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
   const [open, setOpen] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
   const [selectedTokenAddress, setSelectedTokenAddress] = useState<
@@ -51,6 +72,51 @@ export function WithdrawDialog({
   // Withdraw state
   const [isWithdrawPending, setIsWithdrawPending] = useState(false);
   const [isWithdrawSuccess, setIsWithdrawSuccess] = useState(false);
+  const [withdrawalId, setWithdrawalId] = useState<string | null>(null);
+  const [withdrawalStatus, setWithdrawalStatus] =
+    useState<WithdrawalStatus | null>(null);
+
+  // Follow the backend withdrawal until it is confirmed, failed or refunded
+  useEffect(() => {
+    if (!withdrawalId) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const withdrawal = await fetchWithdrawal(withdrawalId);
+        if (cancelled) return;
+
+        setWithdrawalStatus(withdrawal.status);
+        if (!isFinalWithdrawalStatus(withdrawal.status)) {
+          timer = setTimeout(poll, WITHDRAWAL_POLL_INTERVAL_MS);
+          return;
+        }
+
+        setIsWithdrawPending(false);
+        setWithdrawalId(null);
+        if (withdrawal.status === "confirmed") {
+          if (withdrawal.txHash) {
+            console.log("Withdraw Transaction Hash:", withdrawal.txHash);
+          }
+          setIsWithdrawSuccess(true);
+        } else {
+          setError(
+            `Withdrawal ${withdrawal.status}${withdrawal.error ? `: ${withdrawal.error}` : ""}`
+          );
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Failed to fetch withdrawal status:", err);
+        timer = setTimeout(poll, WITHDRAWAL_POLL_INTERVAL_MS);
+      }
+    };
+
+    let timer = setTimeout(poll, WITHDRAWAL_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [withdrawalId]);
 
   // Handle withdraw success - refresh and close modal
   useEffect(() => {
@@ -96,6 +162,11 @@ export function WithdrawDialog({
       return;
     }
 
+    if (!address) {
+      setError("Wallet not connected");
+      return;
+    }
+
     try {
       setError(null);
       setIsWithdrawPending(true);
@@ -103,17 +174,40 @@ export function WithdrawDialog({
 
       const tokenAddress = selectedToken.address || "0x0000000000000000000000000000000000000000";
 
-      const result = await withdrawFromWallet(withdrawAmount, tokenAddress);
+      const domain = await fetchTransferDomain();
+      const withdrawal: Withdrawal = {
+        wallet: address,
+        token: tokenAddress,
+        amount: withdrawAmount,
+        nonce: domain.nonce,
+        deadline: buildDeadline(),
+      };
 
-      if (result.txHash) {
-        console.log("Withdraw Transaction Hash:", result.txHash);
+      const signature = await signTypedDataAsync({
+        domain: buildVoidDomain(domain.chainId, domain.contract),
+        types: VOID_TYPES,
+        primaryType: "Withdraw",
+        message: {
+          ...withdrawal,
+          wallet: address,
+          token: tokenAddress as Address,
+          nonce: BigInt(withdrawal.nonce),
+          deadline: BigInt(withdrawal.deadline),
+        },
+      });
+
+      const result = await withdrawFromWallet(withdrawal, signature);
+
+      if (!result.data) {
+        throw new Error("Withdraw request was not accepted");
       }
 
-      setIsWithdrawSuccess(true);
+      // Stays pending while the status is polled
+      setWithdrawalStatus(result.data.status);
+      setWithdrawalId(result.data.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Withdraw başarısız");
       setIsWithdrawSuccess(false);
-    } finally {
       setIsWithdrawPending(false);
     }
   };
@@ -144,6 +238,8 @@ export function WithdrawDialog({
           // Reset transaction states when opening modal
           setIsWithdrawPending(false);
           setIsWithdrawSuccess(false);
+          setWithdrawalId(null);
+          setWithdrawalStatus(null);
           hasCalledOnSuccessRef.current = false;
         } else {
           // Reset on close
@@ -154,6 +250,8 @@ export function WithdrawDialog({
             setError(null);
             setIsWithdrawPending(false);
             setIsWithdrawSuccess(false);
+            setWithdrawalId(null);
+            setWithdrawalStatus(null);
             hasCalledOnSuccessRef.current = false;
           }, 200);
         }
@@ -438,6 +536,15 @@ export function WithdrawDialog({
                       {error}
                     </motion.div>
                   )}
+                {isWithdrawPending && withdrawalStatus && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10, scale: 0.9 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    className="bg-white/5 border border-white/10 text-white/70 text-xs px-4 py-2 rounded-full backdrop-blur-md"
+                  >
+                    Status: {WITHDRAWAL_STATUS_LABELS[withdrawalStatus]}
+                  </motion.div>
+                )}
                 {isWithdrawSuccess && currentStep === 2 && (
                   <motion.div
                     initial={{ opacity: 0, y: 10, scale: 0.9 }}
@@ -489,7 +596,9 @@ export function WithdrawDialog({
                   {currentStep === 1
                     ? "Continue"
                     : isWithdrawPending
-                      ? "Withdrawing..."
+                      ? withdrawalStatus
+                        ? `${WITHDRAWAL_STATUS_LABELS[withdrawalStatus]}...`
+                        : "Withdrawing..."
                       : "Confirm Withdraw"}
                 </Button>
               </div>
@@ -56,8 +56,9 @@ export const VOID_CONTRACT_ABI = [
 	},
 	{
 		inputs: [
-			{ internalType: 'uint256', name: 'amount', type: 'uint256' },
 			{ internalType: 'address', name: 'tokenAddress', type: 'address' },
+			{ internalType: 'bytes32', name: 'key', type: 'bytes32' },
+			{ internalType: 'bytes32', name: 'value', type: 'bytes32' },
 			{ internalType: 'bytes32', name: 'nonce', type: 'bytes32' },
 			{ internalType: 'bytes32[]', name: 'proof', type: 'bytes32[]' },
 		],
@@ -66,6 +67,21 @@ export const VOID_CONTRACT_ABI = [
 		stateMutability: 'nonpayable',
 		type: 'function',
 	},
+	{
+		inputs: [
+			{ internalType: 'uint256', name: 'amount', type: 'uint256' },
+			{ internalType: 'address', name: 'tokenAddress', type: 'address' },
+			{ internalType: 'bytes32', name: 'root', type: 'bytes32' },
+			{ internalType: 'bytes32', name: 'nonce', type: 'bytes32' },
+			{ internalType: 'bytes32', name: 'matchingKey', type: 'bytes32' },
+			{ internalType: 'bytes32', name: 'matchingValue', type: 'bytes32' },
+			{ internalType: 'bytes32[]', name: 'proof', type: 'bytes32[]' },
+		],
+		name: 'withdrawWithNonInclusive',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'TeeDown',
@@ -97,7 +113,8 @@ export const VOID_CONTRACT_ABI = [
 				components: [
 					{ internalType: 'bytes32', name: 'stateRoot', type: 'bytes32' },
 					{ internalType: 'uint256', name: 'term', type: 'uint256' },
-					{ internalType: 'bytes32', name: 'signature', type: 'bytes32' },
+					{ internalType: 'bytes', name: 'signature', type: 'bytes' },
+					{ internalType: 'bytes32', name: 'liabilitiesRoot', type: 'bytes32' },
 				],
 				internalType: 'struct Void.StateRootInfo',
 				name: 'root',
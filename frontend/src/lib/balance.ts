@@ -1,25 +1,52 @@
-const AUTH_TOKEN_STORAGE_KEY = "VOID_AUTH_TOKEN";
+import { hashLiabilities, verifySumInclusion } from "smt-verifier";
+import { authorizedFetch, readPersistedAuthToken } from "@/lib/sign/auth";
+import { SecretVersion } from "@/lib/sign/secrets";
+
 const BALANCE_CACHE_KEY = "VOID_WALLET_BALANCES";
 const CACHE_VERSION = "v1";
 
-const getAuthToken = (): string | null => {
-  if (typeof window === "undefined") {
-    return null;
-  }
-  try {
-    return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
-  } catch (error) {
-    return null;
-  }
-};
-
 export type BalanceProof = {
   root: string;
   siblings: string[];
   key: string;
   value: string;
+  // Merkle-sum proof: the same leaf is counted in total (base units) under sumRoot, see verifySumInclusion
+  sumRoot?: string;
+  total?: string;
+  sumSiblings?: { hash: string; sum: string }[];
+};
+
+// A token's Merkle-sum root and total liabilities (base units), as committed with a state root
+export type TokenLiabilities = {
+  token: string;
+  sumRoot: string;
+  total: string;
+};
+
+// Proof that the wallet has no leaf for a token; matchingEntry is the other leaf its path ends in, if any
+export type NonInclusionProof = {
+  root: string;
+  siblings: string[];
+  key: string;
+  matchingEntry?: { key: string; value: string };
 };
 
+export type AccountProofResponse = {
+  token: string;
+  term: number | null;
+  rawBalance: string;
+  decimals: number;
+  // Set against committed roots: every token's liabilities and their hash, signed and committed with the root
+  liabilitiesRoot: string | null;
+  liabilities: TokenLiabilities[] | null;
+  // Balance secret the key was built with: a retired one for roots committed before the last rotation
+  secretVersion?: SecretVersion;
+  secretGeneration?: number;
+} & (
+  | { type: "inclusion"; proof: BalanceProof }
+  | { type: "non-inclusion"; proof: NonInclusionProof }
+);
+
 export type TokenBalance = {
   token: string;
   balance: string;
@@ -108,7 +135,7 @@ export function clearBalanceCache(): void {
  * Cache is stored for 5 minutes and includes ZK proofs
  */
 export async function fetchWalletBalances(forceRefresh = false): Promise<BalanceResponse> {
-  const token = getAuthToken();
+  const token = readPersistedAuthToken();
 
   if (!token) {
     throw new Error("No authentication token found. Please sign in first.");
@@ -137,7 +164,6 @@ export async function fetchWalletBalances(forceRefresh = false): Promise<Balance
   // Fetch from API
   const headers: HeadersInit = {
     "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
   };
 
   const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
@@ -145,7 +171,7 @@ export async function fetchWalletBalances(forceRefresh = false): Promise<Balance
     throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
   }
 
-  const response = await fetch(`${baseUrl}/api/balance`, {
+  const response = await authorizedFetch(`${baseUrl}/api/balance`, {
     method: "GET",
     headers,
   });
@@ -174,3 +200,64 @@ export async function fetchWalletBalances(forceRefresh = false): Promise<Balance
   };
 }
 
+/**
+ * Fetches the wallet's proof for a token against a committed root ("latest" by default).
+ * Returns a non-inclusion proof when the wallet has no leaf for the token, e.g. an uncredited deposit.
+ */
+export async function fetchAccountProof(
+  tokenAddress: string,
+  root = "latest"
+): Promise<AccountProofResponse> {
+  if (!readPersistedAuthToken()) {
+    throw new Error("No authentication token found. Please sign in first.");
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
+  }
+
+  const params = new URLSearchParams({ token: tokenAddress, root });
+  const response = await authorizedFetch(`${baseUrl}/api/balance/proof?${params}`);
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok || !json?.success) {
+    throw new Error(json?.error || "Failed to fetch proof");
+  }
+
+  return json.data as AccountProofResponse;
+}
+
+const toBytes32 = (hex: string) =>
+  `0x${hex.replace(/^0x/, "").padStart(64, "0")}` as `0x${string}`;
+
+/**
+ * Checks that liabilities are the ones committed under liabilitiesRoot and that the proven leaf is
+ * counted in its token's total, so the balance cannot have been left out of the published liabilities.
+ */
+export function verifyLiabilityProof(
+  token: string,
+  proof: Pick<BalanceProof, "key" | "value" | "sumSiblings">,
+  liabilitiesRoot: string,
+  liabilities: TokenLiabilities[]
+): boolean {
+  const committed = hashLiabilities(
+    liabilities.map((entry) => ({
+      token: entry.token as `0x${string}`,
+      sumRoot: toBytes32(entry.sumRoot),
+      total: BigInt(entry.total),
+    }))
+  );
+  if (committed.toLowerCase() !== liabilitiesRoot.toLowerCase()) return false;
+
+  const entry = liabilities.find((e) => e.token.toLowerCase() === token.toLowerCase());
+  if (!entry || !proof.sumSiblings) return false;
+
+  return verifySumInclusion(
+    toBytes32(entry.sumRoot),
+    BigInt(entry.total),
+    toBytes32(proof.key),
+    toBytes32(proof.value),
+    proof.sumSiblings.map((s) => ({ hash: toBytes32(s.hash), sum: BigInt(s.sum) }))
+  );
+}
@@ -0,0 +1,141 @@
+import { verifyInclusion } from "smt-verifier";
+import { TokenLiabilities, verifyLiabilityProof } from "@/lib/balance";
+import { authorizedFetch, readPersistedAuthToken } from "@/lib/sign/auth";
+import { SecretVersion, balanceLeafKey } from "@/lib/sign/secrets";
+
+// Kit layout written by rofl-backend exit.service; versions 1 (no liabilities), 2 (no secret
+// derivation) and 3 (nonce always set) are still accepted
+export const EXIT_KIT_VERSION = 4;
+const SUPPORTED_VERSIONS = [1, 2, 3, EXIT_KIT_VERSION];
+
+export type ExitKitEntry = {
+  token: string;
+  decimals: number;
+  balance: string;
+  rawBalance: string;
+  key: `0x${string}`;
+  value: `0x${string}`;
+  siblings: `0x${string}`[];
+  sumSiblings?: { hash: `0x${string}`; sum: string }[];
+};
+
+export type ExitKit = {
+  format: "void-exit-kit";
+  version: number;
+  chainId: number;
+  contract: string;
+  wallet: string;
+  createdAt: number;
+  root: {
+    stateRoot: `0x${string}`;
+    term: number | null;
+    committedAt: number | null;
+    txHash: string | null;
+    signature: string | null;
+    liabilitiesRoot?: `0x${string}` | null;
+    liabilities?: TokenLiabilities[];
+  };
+  // Only set when the root is committed and the kit has a leaf to prove
+  nonce: `0x${string}` | null;
+  // How nonce was derived, for re-deriving it by signing; absent before version 3
+  secretVersion?: SecretVersion;
+  secretGeneration?: number;
+  tokens: ExitKitEntry[];
+};
+
+const isBytes32 = (value: unknown): value is `0x${string}` =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value);
+
+/**
+ * Fetches the exit kit for the signed-in wallet from the backend.
+ */
+export async function fetchExitKit(): Promise<ExitKit> {
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+
+  if (!baseUrl) {
+    throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
+  }
+
+  if (!readPersistedAuthToken()) {
+    throw new Error("No authentication token found. Please sign in first.");
+  }
+
+  const response = await authorizedFetch(`${baseUrl}/api/balance/exit-kit`);
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok || !json?.success) {
+    throw new Error(json?.error || "Failed to fetch exit kit");
+  }
+
+  return parseExitKit(JSON.stringify(json.data));
+}
+
+/**
+ * Saves an exit kit as a JSON file.
+ */
+export function downloadExitKit(kit: ExitKit): void {
+  const blob = new Blob([JSON.stringify(kit, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `void-exit-kit-${kit.wallet.slice(0, 10)}-term-${kit.root.term ?? "live"}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses and validates an exit kit file. Throws with a readable message if it cannot be used.
+ */
+export function parseExitKit(text: string): ExitKit {
+  let kit: ExitKit;
+  try {
+    kit = JSON.parse(text);
+  } catch {
+    throw new Error("Exit kit is not valid JSON");
+  }
+
+  if (kit?.format !== "void-exit-kit") {
+    throw new Error("File is not a Void exit kit");
+  }
+  if (!SUPPORTED_VERSIONS.includes(kit.version)) {
+    throw new Error(`Unsupported exit kit version ${kit.version}`);
+  }
+  if (!isBytes32(kit.root?.stateRoot) || !Array.isArray(kit.tokens)) {
+    throw new Error("Exit kit is missing its root");
+  }
+  // The contract recomputes every leaf key from the nonce, so proofs against a committed root need it
+  const { nonce } = kit;
+  if (nonce === null ? kit.root.term !== null && kit.tokens.length > 0 : !isBytes32(nonce)) {
+    throw new Error("Exit kit is missing its nonce");
+  }
+
+  for (const entry of kit.tokens) {
+    if (
+      !isBytes32(entry.key) ||
+      !isBytes32(entry.value) ||
+      !Array.isArray(entry.siblings) ||
+      !entry.siblings.every(isBytes32)
+    ) {
+      throw new Error(`Exit kit proof for ${entry.token} is malformed`);
+    }
+    // Keys are keccak256(wallet, token, nonce); a nonce that does not produce them is the wrong secret
+    if (nonce && balanceLeafKey(kit.wallet, entry.token, nonce) !== entry.key.toLowerCase()) {
+      throw new Error(`Exit kit nonce does not match the key for ${entry.token}; download a new exit kit`);
+    }
+    // Same check the contract makes, so a damaged kit is caught before sending a transaction
+    if (!verifyInclusion(kit.root.stateRoot, entry.key, entry.value, entry.siblings)) {
+      throw new Error(`Exit kit proof for ${entry.token} does not match its root`);
+    }
+    // The balance must be counted in the liabilities the TEE committed with the root
+    const { liabilitiesRoot, liabilities } = kit.root;
+    if (liabilitiesRoot && !verifyLiabilityProof(entry.token, entry, liabilitiesRoot, liabilities ?? [])) {
+      throw new Error(`Exit kit balance for ${entry.token} is not counted in the committed liabilities`);
+    }
+  }
+
+  return kit;
+}
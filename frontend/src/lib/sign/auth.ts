@@ -9,16 +9,28 @@ export type LoginPayload = {
   signature: string;
 };
 
+export type LoginMessage = {
+  message: string;
+  nonce?: string;
+  expiresAt?: number;
+};
+
 export const AUTH_TOKEN_STORAGE_KEY = "VOID_AUTH_TOKEN";
+export const REFRESH_TOKEN_STORAGE_KEY = "VOID_REFRESH_TOKEN";
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000;
 const shouldSkipSignatureWithToken =
   process.env.NEXT_PUBLIC_VOID_SKIP_SIGNATURE_WITH_TOKEN === "true";
 
-export const persistAuthToken = (token?: string) => {
+export const persistAuthToken = (token?: string, refreshToken?: string) => {
   if (!token || typeof window === "undefined") {
     return;
   }
   try {
     window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+    if (refreshToken) {
+      window.localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+    }
   } catch (error) {
     console.error("Failed to persist auth token:", error);
   }
@@ -42,6 +54,7 @@ export const clearAuthToken = () => {
   }
   try {
     window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    window.localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
     // Also clear balance cache on logout
     window.localStorage.removeItem("VOID_WALLET_BALANCES");
   } catch (error) {
@@ -72,6 +85,157 @@ export const decodeJWT = (
   }
 };
 
+/**
+ * Whether the access token expires within the refresh margin (or has no expiry we can read).
+ */
+export const isAuthTokenExpiring = (token: string): boolean => {
+  const exp = decodeJWT(token)?.exp;
+  return !exp || exp * 1000 - REFRESH_MARGIN_MS <= Date.now();
+};
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new token pair. The backend rotates
+ * refresh tokens, so concurrent callers share one request. Returns the new
+ * access token, or null (with tokens cleared) if the session is gone.
+ */
+export async function refreshAuthToken(): Promise<string | null> {
+  if (refreshInFlight) {
+    return refreshInFlight;
+  }
+
+  refreshInFlight = (async () => {
+    const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+    const refreshToken =
+      typeof window === "undefined"
+        ? null
+        : window.localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    if (!baseUrl || !refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/api/auth/refresh`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+        }
+        return null;
+      }
+
+      const data = await response.json();
+      const token = data?.data?.token;
+      persistAuthToken(token, data?.data?.refreshToken);
+      return token ?? null;
+    } catch (error) {
+      console.error("Failed to refresh auth token:", error);
+      return null;
+    }
+  })();
+
+  try {
+    return await refreshInFlight;
+  } finally {
+    refreshInFlight = null;
+  }
+}
+
+/**
+ * Returns a stored access token that is not about to expire, refreshing it if needed.
+ */
+export async function getValidAuthToken(): Promise<string | null> {
+  const token = readPersistedAuthToken();
+  if (token && !isAuthTokenExpiring(token)) {
+    return token;
+  }
+  return refreshAuthToken();
+}
+
+/**
+ * fetch with the stored access token, refreshed first if it is about to expire. A 401 means the
+ * token was revoked or expired early, so it is refreshed and the request is sent once more.
+ */
+export async function authorizedFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send(await getValidAuthToken());
+  if (response.status !== 401) {
+    return response;
+  }
+  const refreshed = await refreshAuthToken();
+  return refreshed ? send(refreshed) : response;
+}
+
+/**
+ * Keeps the stored access token fresh by refreshing it shortly before it
+ * expires. Returns a function that stops the timer.
+ */
+export const scheduleAuthTokenRefresh = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const schedule = () => {
+    const token = readPersistedAuthToken();
+    const exp = token ? decodeJWT(token)?.exp : undefined;
+    if (stopped || !exp) {
+      return;
+    }
+
+    const delay = Math.max(exp * 1000 - REFRESH_MARGIN_MS - Date.now(), 0);
+    timer = setTimeout(async () => {
+      if (await refreshAuthToken()) {
+        schedule();
+      }
+    }, delay);
+  };
+
+  schedule();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
+
+/**
+ * Revokes the current session on the backend, then clears the stored tokens.
+ */
+export async function logout(): Promise<void> {
+  const token = readPersistedAuthToken();
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+
+  if (token && baseUrl) {
+    try {
+      await fetch(`${baseUrl}/api/auth/logout`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to revoke session:", error);
+    }
+  }
+
+  clearAuthToken();
+}
+
 /**
  * Validates if the token's wallet address matches the connected wallet.
  * Returns true if valid, false otherwise.
@@ -108,6 +272,40 @@ export async function canSkipSignatureWithStoredToken(): Promise<boolean> {
   return true;
 }
 
+/**
+ * Fetches a Sign-In with Ethereum message for the address. The backend issues a
+ * single-use nonce with it, so a fresh message is needed for every login.
+ */
+export async function fetchLoginMessage(
+  address: string
+): Promise<LoginMessage> {
+  if (shouldBypassSignatureSubmission) {
+    return { message: "Sign in to Cloak Wallet." };
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
+  }
+
+  const response = await fetch(
+    `${baseUrl}/api/auth/message?address=${encodeURIComponent(address)}`
+  );
+
+  if (!response.ok) {
+    const errorMessage =
+      (await response.text()) || "Failed to fetch login message";
+    throw new Error(errorMessage);
+  }
+
+  const data = await response.json();
+  const loginMessage: LoginMessage | undefined = data?.data ?? data;
+  if (!loginMessage?.message) {
+    throw new Error("Backend did not return a login message");
+  }
+  return loginMessage;
+}
+
 /**
  * Builds the payload and submits it to the backend for login/auth.
  */
@@ -151,10 +349,11 @@ export async function submitLoginSignature(
 
   const data = await response.json();
   const token = data?.token ?? data?.data?.token;
+  const refreshToken = data?.refreshToken ?? data?.data?.refreshToken;
   const wallet = data?.wallet ?? data?.data?.wallet ?? address;
   const messageFromApi = data?.message ?? data?.data?.message;
 
-  persistAuthToken(token);
+  persistAuthToken(token, refreshToken);
 
   return {
     success: data?.success ?? true,
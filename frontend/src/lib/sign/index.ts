@@ -1,6 +1,8 @@
 export * from "./utils";
 export * from "./auth";
 export * from "./transfer";
+export * from "./typed-data";
+export * from "./secrets";
 
 // Backward compatibility alias
 export { submitLoginSignature as submitSignatureToBackend } from "./auth";
@@ -0,0 +1,113 @@
+import { concat, hexToBytes, keccak256, stringToBytes, toHex } from "viem";
+
+export type SecretVersion = "legacy" | "v1";
+export type SecretPurpose = "balance" | "tx";
+
+// Derivation of this wallet's balance secret, as reported by /api/auth/me
+export const SECRET_VERSION_STORAGE_KEY = "VOID_SECRET_VERSION";
+// Number of secret rotations, as reported by /api/auth/me; 0 means the onboarding secrets
+export const SECRET_GENERATION_STORAGE_KEY = "VOID_SECRET_GENERATION";
+
+/**
+ * HKDF-SHA256 over the r || s of the onboarding signature, mirroring deriveVersionedSecret
+ * in the backend. Lets the emergency exit rebuild the balance secret while the TEE is down.
+ */
+export async function deriveVersionedSecret(
+  signature: string,
+  wallet: string,
+  purpose: SecretPurpose,
+  version: Exclude<SecretVersion, "legacy"> = "v1"
+): Promise<`0x${string}`> {
+  // Copies give WebCrypto the ArrayBuffer-backed views it expects
+  const seed = new Uint8Array(
+    hexToBytes(signature.slice(0, 130) as `0x${string}`)
+  );
+  const key = await crypto.subtle.importKey("raw", seed, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(
+        stringToBytes(`cloak-wallet:${wallet.toLowerCase()}`)
+      ),
+      info: new Uint8Array(
+        stringToBytes(`cloak-wallet/${purpose}/${version}`)
+      ),
+    },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+/**
+ * Key of the wallet's balance leaf for token under a balance secret, mirroring generateKey in the
+ * backend. A derived secret is the right one when it reproduces the key of a proof.
+ */
+export const balanceLeafKey = (
+  wallet: string,
+  token: string,
+  secret: string
+): `0x${string}` =>
+  keccak256(
+    concat([
+      wallet.toLowerCase() as `0x${string}`,
+      token.toLowerCase() as `0x${string}`,
+      secret as `0x${string}`,
+    ])
+  );
+
+export const persistSecretVersion = (version?: SecretVersion | null) => {
+  if (!version || typeof window === "undefined") {
+    return;
+  }
+  try {
+    window.localStorage.setItem(SECRET_VERSION_STORAGE_KEY, version);
+  } catch (error) {
+    console.error("Failed to persist secret version:", error);
+  }
+};
+
+// Wallets onboarded before versioned secrets never had one recorded
+export const readSecretVersion = (): SecretVersion => {
+  if (typeof window === "undefined") {
+    return "legacy";
+  }
+  try {
+    return window.localStorage.getItem(SECRET_VERSION_STORAGE_KEY) === "v1"
+      ? "v1"
+      : "legacy";
+  } catch {
+    return "legacy";
+  }
+};
+
+export const persistSecretGeneration = (generation?: number | null) => {
+  if (typeof generation !== "number" || typeof window === "undefined") {
+    return;
+  }
+  try {
+    window.localStorage.setItem(
+      SECRET_GENERATION_STORAGE_KEY,
+      String(generation)
+    );
+  } catch (error) {
+    console.error("Failed to persist secret generation:", error);
+  }
+};
+
+export const readSecretGeneration = (): number => {
+  if (typeof window === "undefined") {
+    return 0;
+  }
+  try {
+    const generation = Number(
+      window.localStorage.getItem(SECRET_GENERATION_STORAGE_KEY)
+    );
+    return Number.isSafeInteger(generation) && generation > 0 ? generation : 0;
+  } catch {
+    return 0;
+  }
+};
@@ -2,26 +2,22 @@ import {
   SignatureSubmissionResult,
   shouldBypassSignatureSubmission,
 } from "./utils";
+import { authorizedFetch } from "./auth";
 
-const AUTH_TOKEN_STORAGE_KEY = "VOID_AUTH_TOKEN";
-
-const getAuthToken = (): string | null => {
-  if (typeof window === "undefined") {
-    return null;
-  }
-  try {
-    return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
-  } catch (error) {
-    console.error("Failed to read auth token:", error);
-    return null;
-  }
-};
-
+// Signed as the EIP-712 `Transfer` struct (see ./typed-data)
 export type SendTransaction = {
   from: string;
   to: string;
   token: string;
   amount: string;
+  nonce: number;
+  deadline: number;
+};
+
+export type TransferDomain = {
+  nonce: number;
+  chainId: number;
+  contract: string;
 };
 
 export type TransferPayload = {
@@ -29,6 +25,35 @@ export type TransferPayload = {
   signature: string;
 };
 
+/**
+ * Fetches the wallet's next nonce and the chain/contract used as the EIP-712 domain.
+ */
+export async function fetchTransferDomain(): Promise<TransferDomain> {
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+
+  if (!baseUrl) {
+    throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
+  }
+
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  };
+
+  const response = await authorizedFetch(`${baseUrl}/api/wallet/nonce`, {
+    method: "GET",
+    headers,
+  });
+
+  if (!response.ok) {
+    const errorMessage =
+      (await response.text()) || "Failed to fetch transfer nonce";
+    throw new Error(errorMessage);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
 /**
  * Builds the payload and submits it to the backend for wallet transfer.
  */
@@ -54,16 +79,11 @@ export async function submitTransferSignature(
     throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
   }
 
-  const token = getAuthToken();
   const headers: HeadersInit = {
     "Content-Type": "application/json",
   };
 
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${baseUrl}/api/wallet/transfer`, {
+  const response = await authorizedFetch(`${baseUrl}/api/wallet/transfer`, {
     method: "POST",
     headers,
     body: JSON.stringify(payload),
@@ -0,0 +1,123 @@
+import { type Address } from "viem";
+import { baseSepolia } from "viem/chains";
+
+/**
+ * EIP-712 domain and struct definitions shared with the backend.
+ * Must stay in sync with rofl-backend/src/utils/eip712.util.ts.
+ */
+export const buildVoidDomain = (chainId: number, contract: string) => ({
+  name: "Void Wallet",
+  version: "1",
+  chainId,
+  verifyingContract: contract as Address,
+});
+
+export const VOID_TYPES = {
+  Transfer: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  Withdraw: [
+    { name: "wallet", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  SetBalanceSecret: [
+    { name: "wallet", type: "address" },
+    { name: "statement", type: "string" },
+  ],
+  SetTxSecret: [
+    { name: "wallet", type: "address" },
+    { name: "statement", type: "string" },
+  ],
+  OnboardSecrets: [
+    { name: "wallet", type: "address" },
+    { name: "statement", type: "string" },
+    { name: "version", type: "string" },
+  ],
+  RotateSecrets: [
+    { name: "wallet", type: "address" },
+    { name: "statement", type: "string" },
+    { name: "version", type: "string" },
+    { name: "generation", type: "uint256" },
+  ],
+} as const;
+
+export const BALANCE_SECRET_STATEMENT = "Cloak Wallet Balances Secret";
+export const TX_SECRET_STATEMENT = "Cloak Wallet Transactions Secret";
+export const SECRETS_STATEMENT = "Cloak Wallet Secrets";
+export const ROTATE_SECRETS_STATEMENT = "Cloak Wallet Secrets Rotation";
+// Secret derivation signed into OnboardSecrets; must match SECRET_VERSION in the backend
+export const SECRET_VERSION = "v1";
+
+/**
+ * Typed data for secret setup. Uses the static app domain rather than the backend's
+ * so the same signature can be reproduced for emergency exits while the TEE is down.
+ */
+export const buildSecretTypedData = (
+  primaryType: "SetBalanceSecret" | "SetTxSecret",
+  wallet: Address
+) => ({
+  domain: buildVoidDomain(
+    baseSepolia.id,
+    process.env.NEXT_PUBLIC_VOID_CONTRACT_ADDRESS as string
+  ),
+  types: VOID_TYPES,
+  primaryType,
+  message: {
+    wallet,
+    statement:
+      primaryType === "SetBalanceSecret"
+        ? BALANCE_SECRET_STATEMENT
+        : TX_SECRET_STATEMENT,
+  },
+});
+
+/**
+ * Typed data for single-signature onboarding; every secret is derived from this one signature.
+ * Uses the static app domain for the same reason as buildSecretTypedData.
+ */
+export const buildOnboardingTypedData = (wallet: Address) => ({
+  domain: buildVoidDomain(
+    baseSepolia.id,
+    process.env.NEXT_PUBLIC_VOID_CONTRACT_ADDRESS as string
+  ),
+  types: VOID_TYPES,
+  primaryType: "OnboardSecrets" as const,
+  message: {
+    wallet,
+    statement: SECRETS_STATEMENT,
+    version: SECRET_VERSION,
+  },
+});
+
+/**
+ * Typed data for a secret rotation. The secrets of generation n are derived from this signature
+ * with generation n, so the emergency exit can reproduce them like the onboarding ones.
+ */
+export const buildRotationTypedData = (wallet: Address, generation: number) => ({
+  domain: buildVoidDomain(
+    baseSepolia.id,
+    process.env.NEXT_PUBLIC_VOID_CONTRACT_ADDRESS as string
+  ),
+  types: VOID_TYPES,
+  primaryType: "RotateSecrets" as const,
+  message: {
+    wallet,
+    statement: ROTATE_SECRETS_STATEMENT,
+    version: SECRET_VERSION,
+    generation: BigInt(generation),
+  },
+});
+
+// How long a signed transfer or withdrawal stays valid
+export const SIGNATURE_DEADLINE_SECONDS = 10 * 60;
+
+export const buildDeadline = () =>
+  Math.floor(Date.now() / 1000) + SIGNATURE_DEADLINE_SECONDS;
@@ -8,6 +8,3 @@ export type SignatureSubmissionResult = {
 
 export const shouldBypassSignatureSubmission =
   process.env.NEXT_PUBLIC_BYPASS_SIGNATURE_SUBMISSION === "true";
-
-export const buildLoginMessage = (timestamp: number) =>
-  `Login Cloak Wallet Timestamp:${timestamp}`;
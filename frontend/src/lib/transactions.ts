@@ -1,4 +1,4 @@
-import { readPersistedAuthToken } from "@/lib/sign/auth";
+import { authorizedFetch, readPersistedAuthToken } from "@/lib/sign/auth";
 
 export type WalletTransaction = {
   sender: string;
@@ -18,9 +18,7 @@ type TransactionsApiResponse = {
 };
 
 export async function fetchWalletTransactions(): Promise<WalletTransaction[]> {
-  const token = readPersistedAuthToken();
-
-  if (!token) {
+  if (!readPersistedAuthToken()) {
     throw new Error("No authentication token found. Please sign in first.");
   }
 
@@ -34,11 +32,10 @@ export async function fetchWalletTransactions(): Promise<WalletTransaction[]> {
   const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
   try {
-    const response = await fetch(`${baseUrl}/api/transactions`, {
+    const response = await authorizedFetch(`${baseUrl}/api/transactions`, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
       },
       signal: controller.signal,
     });
@@ -1,16 +1,4 @@
-const AUTH_TOKEN_STORAGE_KEY = "VOID_AUTH_TOKEN";
-
-const getAuthToken = (): string | null => {
-  if (typeof window === "undefined") {
-    return null;
-  }
-  try {
-    return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
-  } catch (error) {
-    console.error("Failed to read auth token:", error);
-    return null;
-  }
-};
+import { authorizedFetch, readPersistedAuthToken } from "@/lib/sign/auth";
 
 export type UserProfile = {
   address: string;
@@ -22,16 +10,13 @@ export type UserProfile = {
  * Fetches user profile from /me endpoint
  */
 export async function fetchUserProfile(): Promise<UserProfile> {
-  const token = getAuthToken();
-
-  if (!token) {
+  if (!readPersistedAuthToken()) {
     throw new Error("No authentication token found. Please sign in first.");
   }
 
   const headers: HeadersInit = {
     Accept: "application/json",
     "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
   };
 
   const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
@@ -39,7 +24,7 @@ export async function fetchUserProfile(): Promise<UserProfile> {
     throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
   }
 
-  const response = await fetch(`${baseUrl}/api/auth/me`, {
+  const response = await authorizedFetch(`${baseUrl}/api/auth/me`, {
     method: "GET",
     headers,
   });
@@ -1,30 +1,51 @@
-const AUTH_TOKEN_STORAGE_KEY = "VOID_AUTH_TOKEN";
+import { authorizedFetch } from "@/lib/sign/auth";
 
-const getAuthToken = (): string | null => {
-  if (typeof window === "undefined") {
-    return null;
-  }
-  try {
-    return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
-  } catch (error) {
-    console.error("Failed to read auth token:", error);
-    return null;
-  }
+// Signed as the EIP-712 `Withdraw` struct (see ./sign/typed-data)
+export type Withdrawal = {
+  wallet: string;
+  token: string;
+  amount: string;
+  nonce: number;
+  deadline: number;
 };
 
+export type WithdrawalStatus =
+  | "requested"
+  | "debited"
+  | "broadcast"
+  | "confirmed"
+  | "failed"
+  | "refunded";
+
+// Statuses after which a withdrawal no longer changes
+export const isFinalWithdrawalStatus = (status: WithdrawalStatus) =>
+  status === "confirmed" || status === "refunded" || status === "failed";
+
 export type WithdrawResponse = {
   success: boolean;
   message?: string;
   error?: string;
+  data?: {
+    id: string;
+    status: WithdrawalStatus;
+  };
+};
+
+export type WithdrawalInfo = {
+  id: string;
+  status: WithdrawalStatus;
+  token: string;
+  amount: string;
   txHash?: string;
+  error?: string;
 };
 
 /**
- * Submits a withdraw request to the backend.
+ * Submits a signed withdraw request to the backend.
  */
 export async function withdrawFromWallet(
-  amount: string,
-  tokenAddress: string
+  withdrawal: Withdrawal,
+  signature: string
 ): Promise<WithdrawResponse> {
   const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
 
@@ -32,18 +53,14 @@ export async function withdrawFromWallet(
     throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
   }
 
-  const token = getAuthToken();
   const headers: HeadersInit = {
     "Content-Type": "application/json",
   };
 
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${baseUrl}/api/wallet/withdraw?amount=${amount}&token=${tokenAddress}`, {
+  const response = await authorizedFetch(`${baseUrl}/api/wallet/withdraw`, {
     method: "POST",
     headers,
+    body: JSON.stringify({ withdrawal, signature }),
   });
 
   if (!response.ok) {
@@ -71,3 +88,23 @@ export async function withdrawFromWallet(
   };
 }
 
+
+/**
+ * Fetches the current status of a withdrawal created by withdrawFromWallet.
+ */
+export async function fetchWithdrawal(id: string): Promise<WithdrawalInfo> {
+  const baseUrl = process.env.NEXT_PUBLIC_VOID_API_BASE_URL;
+
+  if (!baseUrl) {
+    throw new Error("NEXT_PUBLIC_VOID_API_BASE_URL is not configured");
+  }
+
+  const response = await authorizedFetch(`${baseUrl}/api/withdrawals/${id}`);
+  const json = await response.json().catch(() => null);
+
+  if (!response.ok || !json?.success) {
+    throw new Error(json?.error || "Failed to fetch withdrawal status");
+  }
+
+  return json.data as WithdrawalInfo;
+}
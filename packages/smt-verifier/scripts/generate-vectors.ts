@@ -0,0 +1,325 @@
+/**
+ * Generates contracts/test/vectors/smt-proofs.json from the Solidity library.
+ *
+ *   npm run vectors
+ *
+ * Proofs are taken from trees built with @cedoor/smt and the balance tree's hash, so they have exactly the
+ * shape the backend serves. Every root and verdict written to the file is computed by SparseMerkleProof
+ * (contracts/src/SparseMerkleTreeVerifier.sol), compiled with solc-js and run in an in-process EVM.
+ * Generation fails if the library and a tree disagree on a root. The TypeScript verifier is not used here;
+ * test/vectors.test.ts checks it against the file.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { SMT } from '@cedoor/smt';
+import { createEVM } from '@ethereumjs/evm';
+import solc from 'solc';
+import {
+  bytesToHex,
+  decodeFunctionResult,
+  encodeFunctionData,
+  hexToBytes,
+  keccak256,
+  toBytes,
+  toHex,
+  type Abi,
+  type Hex,
+} from 'viem';
+
+const CONTRACTS = join(__dirname, '../../../contracts');
+const LIBRARY = join(CONTRACTS, 'src/SparseMerkleTreeVerifier.sol');
+const OUTPUT = join(CONTRACTS, 'test/vectors/smt-proofs.json');
+
+// Exposes the library's internal functions as external calls
+const HARNESS = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {SparseMerkleProof} from "SparseMerkleTreeVerifier.sol";
+
+contract VectorHarness {
+    function inclusionRoot(bytes32 key, bytes32 value, bytes32[] calldata proof) external pure returns (bytes32) {
+        return SparseMerkleProof.computeRootFromProof(SparseMerkleProof.hashLeaf(key, value), key, proof);
+    }
+
+    function nonInclusionRoot(bytes32 key, bytes32 matchingKey, bytes32 matchingValue, bytes32[] calldata proof)
+        external
+        pure
+        returns (bytes32)
+    {
+        bytes32 node = matchingKey == bytes32(0) ? bytes32(0) : SparseMerkleProof.hashLeaf(matchingKey, matchingValue);
+        return SparseMerkleProof.computeRootFromProof(node, key, proof);
+    }
+
+    function verifyInclusion(bytes32 root, bytes32 key, bytes32 value, bytes32[] calldata proof)
+        external
+        pure
+        returns (bool)
+    {
+        return SparseMerkleProof.verifyInclusion(root, key, value, proof);
+    }
+
+    function verifyNonInclusion(
+        bytes32 root,
+        bytes32 key,
+        bytes32 matchingKey,
+        bytes32 matchingValue,
+        bytes32[] calldata proof
+    ) external pure returns (bool) {
+        return SparseMerkleProof.verifyNonInclusion(root, key, matchingKey, matchingValue, proof);
+    }
+}
+`;
+
+// Same as the balance tree in rofl-backend/src/services/balance.service.ts
+const normalize = (hex: string): string => hex.replace(/^0x/, '').padStart(64, '0');
+const hash = (childNodes: (string | bigint)[]): string => {
+  const concatenated = childNodes.map((n) => normalize(String(n))).join('');
+  return normalize(keccak256(toBytes('0x' + concatenated)));
+};
+
+const bytes32 = (hex: string | bigint): Hex => `0x${normalize(String(hex))}`;
+const keyFor = (label: string): string => normalize(keccak256(toHex(label)));
+const ZERO = bytes32(0n);
+
+interface Vector {
+  name: string;
+  root: Hex;
+  key: Hex;
+  value: Hex;
+  siblings: Hex[];
+}
+
+// Absent key; matchingKey and matchingValue are zero when the path ends in an empty subtree
+interface NonInclusionVector {
+  name: string;
+  root: Hex;
+  key: Hex;
+  matchingKey: Hex;
+  matchingValue: Hex;
+  siblings: Hex[];
+}
+
+// Proofs the library rejects; exactly one of value or matchingKey/matchingValue is set
+interface RejectedVector {
+  name: string;
+  kind: 'inclusion' | 'nonInclusion';
+  root: Hex;
+  key: Hex;
+  value?: Hex;
+  matchingKey?: Hex;
+  matchingValue?: Hex;
+  siblings: Hex[];
+}
+
+type Call = (functionName: string, args: unknown[]) => Promise<unknown>;
+
+// Compile the library with the harness and return a caller for the harness functions
+const loadLibrary = async (): Promise<{ call: Call; version: string }> => {
+  const input = {
+    language: 'Solidity',
+    sources: {
+      'SparseMerkleTreeVerifier.sol': { content: readFileSync(LIBRARY, 'utf8') },
+      'VectorHarness.sol': { content: HARNESS },
+    },
+    settings: { outputSelection: { '*': { '*': ['abi', 'evm.deployedBytecode.object'] } } },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n'));
+  }
+
+  const { abi, evm: compiled } = output.contracts['VectorHarness.sol'].VectorHarness as {
+    abi: Abi;
+    evm: { deployedBytecode: { object: string } };
+  };
+  const code = hexToBytes(`0x${compiled.deployedBytecode.object}`);
+  const evm = await createEVM();
+
+  const call: Call = async (functionName, args) => {
+    const result = await evm.runCode({
+      code,
+      data: hexToBytes(encodeFunctionData({ abi, functionName, args })),
+      gasLimit: 30_000_000n,
+    });
+    if (result.exceptionError) {
+      throw new Error(`${functionName} reverted: ${result.exceptionError.error}`);
+    }
+    return decodeFunctionResult({ abi, functionName, data: bytesToHex(result.returnValue) });
+  };
+
+  return { call, version: solc.version() };
+};
+
+const buildTree = (entries: [string, bigint][]): SMT => {
+  const tree = new SMT(hash);
+  for (const [key, value] of entries) tree.add(key, normalize(value.toString(16)));
+  return tree;
+};
+
+const main = async () => {
+  const { call, version } = await loadLibrary();
+
+  const proveAll = async (name: string, entries: [string, bigint][]): Promise<Vector[]> => {
+    const tree = buildTree(entries);
+    const vectors: Vector[] = [];
+
+    for (const [i, [key, value]] of entries.entries()) {
+      const proof = tree.createProof(key);
+      const vector = {
+        name: `${name} #${i} (depth ${proof.sidenodes.length})`,
+        key: bytes32(key),
+        value: bytes32(value.toString(16)),
+        siblings: proof.sidenodes.map(bytes32),
+      };
+
+      const root = (await call('inclusionRoot', [vector.key, vector.value, vector.siblings])) as Hex;
+      if (root !== bytes32(proof.root)) {
+        throw new Error(`Solidity root ${root} differs from the tree's ${bytes32(proof.root)} for ${vector.name}`);
+      }
+      if (!(await call('verifyInclusion', [root, vector.key, vector.value, vector.siblings]))) {
+        throw new Error(`Solidity library rejects ${vector.name}`);
+      }
+      vectors.push({ name: vector.name, root, ...vector });
+    }
+    return vectors;
+  };
+
+  // Probe absent keys until both kinds of non-inclusion proof are covered
+  const proveAbsent = async (name: string, entries: [string, bigint][]): Promise<NonInclusionVector[]> => {
+    const tree = buildTree(entries);
+    const found = new Map<string, NonInclusionVector>();
+
+    for (let i = 0; found.size < 2 && i < 1000; i++) {
+      const key = keyFor(`absent-${i}`);
+      const proof = tree.createProof(key);
+      const kind = proof.matchingEntry ? 'matching leaf' : 'empty subtree';
+      if (found.has(kind)) continue;
+
+      const vector = {
+        name: `${name}, ${kind} (depth ${proof.sidenodes.length})`,
+        key: bytes32(key),
+        matchingKey: bytes32(proof.matchingEntry?.[0] ?? 0n),
+        matchingValue: bytes32(proof.matchingEntry?.[1] ?? 0n),
+        siblings: proof.sidenodes.map(bytes32),
+      };
+
+      const args = [vector.key, vector.matchingKey, vector.matchingValue, vector.siblings];
+      const root = (await call('nonInclusionRoot', args)) as Hex;
+      if (root !== bytes32(proof.root)) {
+        throw new Error(`Solidity root ${root} differs from the tree's ${bytes32(proof.root)} for ${vector.name}`);
+      }
+      if (!(await call('verifyNonInclusion', [root, ...args]))) {
+        throw new Error(`Solidity library rejects ${vector.name}`);
+      }
+      found.set(kind, { name: vector.name, root, ...vector });
+    }
+
+    return [...found.values()];
+  };
+
+  const spread = Array.from({ length: 8 }, (_, i): [string, bigint] => [keyFor(`vector-${i}`), BigInt(i + 1) * 1_000_000n]);
+
+  // Keys sharing their lowest 4 bits, so the leaves are pushed down past zero siblings
+  const base = BigInt('0x' + keyFor('shared-prefix'));
+  const sharedPrefix: [string, bigint][] = [
+    [normalize(base.toString(16)), 5n],
+    [normalize((base ^ (1n << 4n)).toString(16)), 7n],
+    [keyFor('neighbour'), 11n],
+  ];
+
+  const vectors: Vector[] = [
+    ...(await proveAll('single leaf', [[keyFor('only'), 42n]])),
+    ...(await proveAll('eight leaves', spread)),
+    ...(await proveAll('shared prefix', sharedPrefix)),
+  ];
+
+  const nonInclusion: NonInclusionVector[] = [
+    ...(await proveAbsent('empty tree', [])),
+    ...(await proveAbsent('eight leaves', spread)),
+    ...(await proveAbsent('shared prefix', sharedPrefix)),
+  ];
+
+  // Tampered proofs; kept only if the library really rejects them
+  const candidates: RejectedVector[] = [];
+  for (const vector of vectors) {
+    candidates.push({
+      name: `${vector.name}, value + 1`,
+      kind: 'inclusion',
+      root: vector.root,
+      key: vector.key,
+      value: bytes32((BigInt(vector.value) + 1n).toString(16)),
+      siblings: vector.siblings,
+    });
+    if (vector.siblings.length > 0) {
+      candidates.push({
+        name: `${vector.name}, sibling next to the leaf replaced`,
+        kind: 'inclusion',
+        root: vector.root,
+        key: vector.key,
+        value: vector.value,
+        siblings: [...vector.siblings.slice(0, -1), keyFor(vector.name) as Hex].map(bytes32),
+      });
+    }
+    // A present key claimed absent behind an empty subtree
+    candidates.push({
+      name: `${vector.name}, claimed absent`,
+      kind: 'nonInclusion',
+      root: vector.root,
+      key: vector.key,
+      matchingKey: ZERO,
+      matchingValue: ZERO,
+      siblings: vector.siblings,
+    });
+  }
+  for (const vector of nonInclusion) {
+    if (vector.matchingKey === ZERO) continue;
+    // The matching leaf cannot prove its own key absent
+    candidates.push({
+      name: `${vector.name}, matching key claimed absent`,
+      kind: 'nonInclusion',
+      root: vector.root,
+      key: vector.matchingKey,
+      matchingKey: vector.matchingKey,
+      matchingValue: vector.matchingValue,
+      siblings: vector.siblings,
+    });
+  }
+
+  const rejected: RejectedVector[] = [];
+  for (const candidate of candidates) {
+    const accepted = candidate.kind === 'inclusion'
+      ? await call('verifyInclusion', [candidate.root, candidate.key, candidate.value, candidate.siblings])
+      : await call('verifyNonInclusion', [
+        candidate.root,
+        candidate.key,
+        candidate.matchingKey,
+        candidate.matchingValue,
+        candidate.siblings,
+      ]);
+    if (accepted) {
+      throw new Error(`Solidity library accepts tampered proof: ${candidate.name}`);
+    }
+    rejected.push(candidate);
+  }
+
+  mkdirSync(join(OUTPUT, '..'), { recursive: true });
+  const output = {
+    solc: version,
+    count: vectors.length,
+    vectors,
+    nonInclusionCount: nonInclusion.length,
+    nonInclusion,
+    rejectedCount: rejected.length,
+    rejected,
+  };
+  writeFileSync(OUTPUT, JSON.stringify(output, null, 2) + '\n');
+  console.log(
+    `Wrote ${vectors.length} inclusion, ${nonInclusion.length} non-inclusion and ${rejected.length} rejected vectors to ${OUTPUT}`
+  );
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+import { concat, encodeAbiParameters, hexToBigInt, keccak256, numberToHex, pad, type Address, type Hex } from 'viem';
+
+/**
+ * Standalone SMT proof verification, independent of the tree that produced the proof.
+ * Recomputes roots exactly as SparseMerkleProof in contracts/src/SparseMerkleTreeVerifier.sol and is
+ * used by both rofl-backend and frontend. test/vectors.test.ts runs it on
+ * contracts/test/vectors/smt-proofs.json, whose roots come from the Solidity library itself.
+ *
+ * All inputs are 0x-prefixed bytes32 values. Siblings are ordered from the root level down,
+ * as returned by balance proofs, and the leaf sits at depth siblings.length.
+ */
+
+// Third word of every leaf hash; marks leaves apart from internal nodes
+const LEAF_MARK = pad('0x01');
+
+export const hashLeaf = (key: Hex, value: Hex): Hex => {
+  return keccak256(concat([key, value, LEAF_MARK]));
+};
+
+// At depth i the path goes right when bit i of the key (least significant first) is set
+export const computeRootFromProof = (leafHash: Hex, key: Hex, siblings: Hex[]): Hex => {
+  const path = hexToBigInt(key);
+  let node = leafHash;
+
+  for (let i = siblings.length - 1; i >= 0; i--) {
+    node = (path >> BigInt(i)) & 1n
+      ? keccak256(concat([siblings[i], node]))
+      : keccak256(concat([node, siblings[i]]));
+  }
+
+  return node;
+};
+
+export const verifyInclusion = (root: Hex, key: Hex, value: Hex, siblings: Hex[]): boolean => {
+  return computeRootFromProof(hashLeaf(key, value), key, siblings).toLowerCase() === root.toLowerCase();
+};
+
+// Key has no leaf: its path ends in an empty subtree, or in the leaf of another key sharing the
+// first siblings.length path bits. Mirrors SparseMerkleProof.verifyNonInclusion.
+export const verifyNonInclusion = (
+  root: Hex,
+  key: Hex,
+  siblings: Hex[],
+  matchingEntry?: { key: Hex; value: Hex }
+): boolean => {
+  let node: Hex = pad('0x00');
+
+  if (matchingEntry) {
+    const matchingPath = hexToBigInt(matchingEntry.key);
+    const path = hexToBigInt(key);
+    if (matchingPath === path) return false;
+    if (((matchingPath ^ path) & ((1n << BigInt(siblings.length)) - 1n)) !== 0n) return false;
+    node = hashLeaf(matchingEntry.key, matchingEntry.value);
+  }
+
+  return computeRootFromProof(node, key, siblings).toLowerCase() === root.toLowerCase();
+};
+
+// Node of a Merkle-sum tree: its hash and the sum of the leaf values below it
+export interface SumNode {
+  hash: Hex;
+  sum: bigint;
+}
+
+// Internal Merkle-sum nodes hash both children together with their sums, so no subtree's sum can
+// change without changing the root. Leaves keep the plain leaf hash and count their value.
+export const hashSumNode = (left: SumNode, right: SumNode): SumNode => {
+  const word = (sum: bigint): Hex => numberToHex(sum, { size: 32 });
+  return {
+    hash: keccak256(concat([left.hash, word(left.sum), right.hash, word(right.sum)])),
+    sum: left.sum + right.sum,
+  };
+};
+
+export const computeSumRootFromProof = (key: Hex, value: Hex, siblings: SumNode[]): SumNode => {
+  const path = hexToBigInt(key);
+  let node: SumNode = { hash: hashLeaf(key, value), sum: hexToBigInt(value) };
+
+  for (let i = siblings.length - 1; i >= 0; i--) {
+    node = (path >> BigInt(i)) & 1n ? hashSumNode(siblings[i], node) : hashSumNode(node, siblings[i]);
+  }
+
+  return node;
+};
+
+// The leaf (key, value) is counted in total, the sum committed to by root
+export const verifySumInclusion = (root: Hex, total: bigint, key: Hex, value: Hex, siblings: SumNode[]): boolean => {
+  const computed = computeSumRootFromProof(key, value, siblings);
+  return computed.hash.toLowerCase() === root.toLowerCase() && computed.sum === total;
+};
+
+// One token's Merkle-sum root and the total liabilities it commits to
+export interface TokenLiability {
+  token: Address;
+  sumRoot: Hex;
+  total: bigint;
+}
+
+// Commitment to every token's liabilities, signed by the TEE and stored on-chain with the state root:
+// keccak256(abi.encode((address token, bytes32 sumRoot, uint256 total)[])) with entries ordered by token
+export const hashLiabilities = (liabilities: TokenLiability[]): Hex => {
+  const sorted = [...liabilities].sort((a, b) => (hexToBigInt(a.token) < hexToBigInt(b.token) ? -1 : 1));
+  return keccak256(encodeAbiParameters(
+    [{
+      type: 'tuple[]',
+      components: [
+        { name: 'token', type: 'address' },
+        { name: 'sumRoot', type: 'bytes32' },
+        { name: 'total', type: 'uint256' },
+      ],
+    }],
+    [sorted]
+  ));
+};
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SMT } from '@cedoor/smt';
+import { keccak256, toBytes, toHex, type Hex } from 'viem';
+import { computeRootFromProof, hashLeaf, hashLiabilities, verifyInclusion, verifyNonInclusion } from '../src';
+
+// Roots and verdicts in this file were computed by the Solidity library (npm run vectors)
+const VECTORS = join(__dirname, '../../../contracts/test/vectors/smt-proofs.json');
+
+interface VectorFile {
+  vectors: { name: string; root: Hex; key: Hex; value: Hex; siblings: Hex[] }[];
+  nonInclusion: { name: string; root: Hex; key: Hex; matchingKey: Hex; matchingValue: Hex; siblings: Hex[] }[];
+  rejected: {
+    name: string;
+    kind: 'inclusion' | 'nonInclusion';
+    root: Hex;
+    key: Hex;
+    value?: Hex;
+    matchingKey?: Hex;
+    matchingValue?: Hex;
+    siblings: Hex[];
+  }[];
+}
+
+const file: VectorFile = JSON.parse(readFileSync(VECTORS, 'utf8'));
+
+const matchingEntryOf = (matchingKey?: Hex, matchingValue?: Hex) => {
+  return matchingKey && BigInt(matchingKey) !== 0n ? { key: matchingKey, value: matchingValue as Hex } : undefined;
+};
+
+test('computes the Solidity root of every inclusion vector', () => {
+  assert.ok(file.vectors.length > 0);
+  for (const vector of file.vectors) {
+    assert.equal(computeRootFromProof(hashLeaf(vector.key, vector.value), vector.key, vector.siblings), vector.root, vector.name);
+    assert.ok(verifyInclusion(vector.root, vector.key, vector.value, vector.siblings), vector.name);
+  }
+});
+
+test('accepts every non-inclusion vector', () => {
+  assert.ok(file.nonInclusion.length > 0);
+  for (const vector of file.nonInclusion) {
+    const matchingEntry = matchingEntryOf(vector.matchingKey, vector.matchingValue);
+    assert.ok(verifyNonInclusion(vector.root, vector.key, vector.siblings, matchingEntry), vector.name);
+  }
+});
+
+test('rejects every proof the Solidity library rejects', () => {
+  assert.ok(file.rejected.length > 0);
+  for (const vector of file.rejected) {
+    const accepted = vector.kind === 'inclusion'
+      ? verifyInclusion(vector.root, vector.key, vector.value as Hex, vector.siblings)
+      : verifyNonInclusion(vector.root, vector.key, vector.siblings, matchingEntryOf(vector.matchingKey, vector.matchingValue));
+    assert.equal(accepted, false, vector.name);
+  }
+});
+
+// Same hash as the balance tree in rofl-backend
+const normalize = (hex: string): string => hex.replace(/^0x/, '').padStart(64, '0');
+const hash = (childNodes: (string | bigint)[]): string => {
+  return normalize(keccak256(toBytes('0x' + childNodes.map((n) => normalize(String(n))).join(''))));
+};
+const bytes32 = (hex: string | bigint): Hex => `0x${normalize(String(hex))}`;
+
+test('round-trips proofs from trees of every size up to 64 leaves', () => {
+  const tree = new SMT(hash);
+  const entries: [string, bigint][] = [];
+
+  for (let i = 0; i < 64; i++) {
+    const key = normalize(keccak256(toHex(`round-trip-${i}`)));
+    const value = BigInt(i + 1) * 10n ** 18n;
+    tree.add(key, normalize(value.toString(16)));
+    entries.push([key, value]);
+
+    for (const [present, presentValue] of entries) {
+      const proof = tree.createProof(present);
+      const siblings = proof.sidenodes.map(bytes32);
+      assert.ok(verifyInclusion(bytes32(proof.root), bytes32(present), bytes32(presentValue.toString(16)), siblings));
+    }
+
+    const absent = normalize(keccak256(toHex(`absent-${i}`)));
+    const proof = tree.createProof(absent);
+    const matchingEntry = proof.matchingEntry
+      ? { key: bytes32(proof.matchingEntry[0]), value: bytes32(proof.matchingEntry[1]) }
+      : undefined;
+    assert.ok(verifyNonInclusion(bytes32(proof.root), bytes32(absent), proof.sidenodes.map(bytes32), matchingEntry));
+    assert.equal(verifyInclusion(bytes32(proof.root), bytes32(absent), bytes32(1n), proof.sidenodes.map(bytes32)), false);
+  }
+});
+
+test('hashes liabilities independently of their order', () => {
+  const a = { token: '0x1111111111111111111111111111111111111111' as const, sumRoot: bytes32(1n), total: 5n };
+  const b = { token: '0x00000000000000000000000000000000000000ff' as const, sumRoot: bytes32(2n), total: 7n };
+
+  assert.equal(hashLiabilities([a, b]), hashLiabilities([b, a]));
+  assert.notEqual(hashLiabilities([a, b]), hashLiabilities([a, { ...b, total: 8n }]));
+  assert.notEqual(hashLiabilities([a]), hashLiabilities([a, b]));
+});
@@ -0,0 +1,35 @@
+/**
+ * Rebuilds the balance and transaction SMTs from the persisted rows and compares them with the
+ * live roots, the committed roots and the root on-chain. Prints the report and exits 1 on any mismatch.
+ *
+ *   DB_PATH=./data npm run verify:state
+ *
+ * The database is opened read-only and nothing is written, so this can run next to the server;
+ * it sees the database as of opening. The server must have started once on it to migrate its rows.
+ * A running server also serves the check at POST /api/operator/integrity.
+ */
+import { initializeDatabase, closeDatabase } from '../src/services/db.service';
+import { initializeBalanceService } from '../src/services/balance.service';
+import { initializeTransactionService } from '../src/services/transaction.service';
+import { runIntegrityCheck } from '../src/services/integrity.service';
+
+const main = async (): Promise<void> => {
+  await initializeDatabase({ readOnly: true });
+  await initializeBalanceService({ readOnly: true });
+  await initializeTransactionService({ readOnly: true });
+
+  const report = await runIntegrityCheck({ readOnly: true });
+  console.log(JSON.stringify(report, null, 2));
+  await closeDatabase();
+
+  if (!report.ok) {
+    const first = report.balance.firstDivergence ?? report.transactions.firstDivergence;
+    if (first) console.error(`First divergent key: ${first.key}${first.record ? ` (${first.record})` : ''}`);
+    process.exit(1);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,10 +5,10 @@ export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
   /**
-   * Get message to sign
+   * Get a Sign-In with Ethereum message to sign
    * GET /api/auth/message?address=0x...
    */
-  getMessage(req: Request, res: Response, next: NextFunction): void {
+  async getMessage(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { address } = req.query;
 
@@ -17,11 +17,11 @@ export class AuthController {
         return;
       }
 
-      const message = this.authService.generateMessage(address);
+      const result = await this.authService.generateMessage(address);
 
       res.json({
         success: true,
-        data: { message },
+        data: result,
       });
     } catch (error) {
       next(error);
@@ -34,7 +34,23 @@ export class AuthController {
    */
   async login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await this.authService.login(req.body);
+      const result = await this.authService.login(req.body, { userAgent: req.get('user-agent'), ip: req.ip });
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * POST /api/auth/refresh
+   */
+  async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.authService.refresh(req.body);
       res.json({
         success: true,
         data: result,
@@ -44,6 +60,64 @@ export class AuthController {
     }
   }
 
+  /**
+   * Revoke the session of the presented access token
+   * POST /api/auth/logout
+   */
+  async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (req.sessionId) {
+        await this.authService.logout(req.sessionId);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the wallet's active sessions
+   * GET /api/auth/sessions
+   */
+  async getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const sessions = await this.authService.listSessions(wallet, req.sessionId);
+      res.json({
+        success: true,
+        data: { sessions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke one of the wallet's sessions
+   * DELETE /api/auth/sessions/:id
+   */
+  async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      await this.authService.revokeSession(wallet, String(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get current user info
    * GET /api/auth/me
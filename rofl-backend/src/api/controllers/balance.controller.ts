@@ -1,6 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
-import { getAllBalances } from '../../services/balance.service';
+import { getAllBalances, getAccountProof } from '../../services/balance.service';
 import { backfillDepositsForWallet } from '../../services/webhook.service';
+import { creditPendingDeposits } from '../../services/deposit.service';
+import { getTokenDecimals } from '../../services/token.service';
+import { getCommitmentForRoot, getLastCommittedRoot } from '../../services/stateRoot.service';
+import { buildExitKit } from '../../services/exit.service';
+import { explainBalance } from '../../services/journal.service';
+import { fromBaseUnits } from '../../utils/amount.util';
+import { BalanceView } from '../../types/balance.types';
+import { AppError } from '../middlewares/errorHandler';
 
 export class BalanceController {
   /**
@@ -17,17 +25,161 @@ export class BalanceController {
         return;
       }
 
+      // Normally done when the secret is set; repeated here in case that request was interrupted
+      await creditPendingDeposits(wallet);
+
       let balances = await getAllBalances(wallet);
       if (balances.length === 0) {
         await backfillDepositsForWallet(wallet);
         balances = await getAllBalances(wallet);
       }
 
+      // Ledger is kept in base units; apply token decimals for display
+      const views: BalanceView[] = await Promise.all(balances.map(async (entry) => {
+        const decimals = await getTokenDecimals(entry.token);
+        return {
+          ...entry,
+          balance: fromBaseUnits(BigInt(entry.balance), decimals),
+          rawBalance: entry.balance,
+          decimals,
+        };
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          wallet,
+          balances: views,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a balance proof for the authenticated wallet
+   * GET /api/balance/proof?token=0x...&root=0x...
+   * root is a state root committed on-chain, or "latest" for the last committed one; without it the
+   * proof is against the current root, which may not be committed yet. Proofs against a committed
+   * root stay valid for emergency exits after the TEE stops.
+   * type is "inclusion" when the wallet has a leaf for token under the root, otherwise "non-inclusion".
+   * secretVersion and secretGeneration identify the balance secret the key was built with: a retired one for
+   * roots committed before the wallet's last rotation.
+   * Inclusion proofs also carry sumRoot, total and sumSiblings: the leaf counted in the token's total liabilities.
+   * Against a committed root, liabilities and liabilitiesRoot are every token's sum root and total and the hash
+   * of them the TEE signed and committed with the root.
+   */
+  async getProof(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const { token, root } = req.query;
+
+      if (typeof token !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(token)) {
+        throw new AppError('Valid token address is required', 400);
+      }
+      if (root !== undefined && (typeof root !== 'string' || (root !== 'latest' && !/^(0x)?[a-fA-F0-9]{1,64}$/.test(root)))) {
+        throw new AppError('root must be a 32-byte hex root or "latest"', 400);
+      }
+
+      const commitment = root === undefined
+        ? null
+        : root === 'latest' ? await getLastCommittedRoot() : await getCommitmentForRoot(root);
+
+      if (root !== undefined && !commitment) {
+        throw new AppError(root === 'latest' ? 'No state root has been committed yet' : 'Root has not been committed on-chain', 404);
+      }
+
+      const liabilities = commitment?.liabilities?.find(entry => entry.token === token.toLowerCase());
+      const { type, proof, secretVersion, secretGeneration } = await getAccountProof(wallet, token, commitment?.stateRoot, liabilities);
+      const decimals = await getTokenDecimals(token);
+      const rawBalance = type === 'inclusion' ? BigInt('0x' + proof.value) : 0n;
+
+      res.json({
+        success: true,
+        data: {
+          wallet,
+          token,
+          balance: fromBaseUnits(rawBalance, decimals),
+          rawBalance: rawBalance.toString(),
+          decimals,
+          term: commitment?.term ?? null,
+          committedAt: commitment?.committedAt ?? null,
+          liabilitiesRoot: commitment?.liabilitiesRoot ?? null,
+          liabilities: commitment?.liabilities ?? null,
+          type,
+          proof,
+          secretVersion,
+          secretGeneration,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the exit kit for the authenticated wallet
+   * GET /api/balance/exit-kit
+   * A versioned, self-contained bundle of leaf data, proofs, root and nonce for every token,
+   * enough to call emergencyWithdrawWithInclusive without the backend.
+   */
+  async getExitKit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const kit = await buildExitKit(wallet);
+
+      res.json({
+        success: true,
+        data: kit,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Journal lines behind the authenticated wallet's balance of a token, oldest first
+   * GET /api/balance/journal?token=0x...
+   * Each line is one deposit, transfer, withdrawal, refund or exit with the balance after it.
+   */
+  async getJournal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const { token } = req.query;
+
+      if (typeof token !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(token)) {
+        throw new AppError('Valid token address is required', 400);
+      }
+
+      const { balance, ledger, lines } = await explainBalance(wallet, token);
+      const decimals = await getTokenDecimals(token);
+
       res.json({
         success: true,
         data: {
           wallet,
-          balances,
+          token,
+          balance: fromBaseUnits(ledger, decimals),
+          rawBalance: ledger.toString(),
+          decimals,
+          reconciled: balance === ledger,
+          entries: lines,
         },
       });
     } catch (error) {
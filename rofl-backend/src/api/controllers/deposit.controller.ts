@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { getPendingDeposits } from '../../services/deposit.service';
+import { getTokenDecimals } from '../../services/token.service';
+import { fromBaseUnits } from '../../utils/amount.util';
+import { PendingDepositView } from '../../types/deposit.types';
+
+export class DepositController {
+  /**
+   * Get deposits waiting for the authenticated wallet to set its balance secret
+   * GET /api/deposits/pending
+   */
+  async getPending(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const pending = await getPendingDeposits(wallet);
+
+      const deposits: PendingDepositView[] = await Promise.all(pending.map(async (deposit) => {
+        const decimals = await getTokenDecimals(deposit.token);
+        return {
+          txHash: deposit.txHash,
+          logIndex: deposit.logIndex,
+          token: deposit.token,
+          amount: fromBaseUnits(BigInt(deposit.amount), decimals),
+          rawAmount: deposit.amount,
+          decimals,
+          receivedAt: deposit.receivedAt,
+        };
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          wallet,
+          deposits,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
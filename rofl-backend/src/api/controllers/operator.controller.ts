@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { getLastReconciliation, runReconciliation } from '../../services/reconciliation.service';
+import { getLastIntegrityReport, runIntegrityCheck } from '../../services/integrity.service';
+import { AppError } from '../middlewares/errorHandler';
+
+export class OperatorController {
+  /**
+   * Get the last solvency reconciliation report
+   * GET /api/operator/reconciliation
+   */
+  async getReconciliation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await getLastReconciliation();
+
+      if (!report) {
+        throw new AppError('No reconciliation has run yet', 404);
+      }
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reconcile the ledger against on-chain custody now
+   * POST /api/operator/reconciliation
+   */
+  async runReconciliation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await runReconciliation();
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the last state integrity report
+   * GET /api/operator/integrity
+   */
+  async getIntegrity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await getLastIntegrityReport();
+
+      if (!report) {
+        throw new AppError('No integrity check has run yet', 404);
+      }
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rebuild the balance and transaction trees from their records and compare them with the live and committed roots
+   * POST /api/operator/integrity
+   */
+  async runIntegrityCheck(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await runIntegrityCheck();
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { getLastCommittedRoot } from '../../services/stateRoot.service';
+import { getLiabilities, getRoot } from '../../services/balance.service';
+import { AppError } from '../middlewares/errorHandler';
+
+export class StateController {
+  /**
+   * Get the last state root committed on-chain and the TEE signature over it
+   * GET /api/state/root
+   */
+  async getLastRoot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const commitment = await getLastCommittedRoot();
+
+      if (!commitment) {
+        throw new AppError('No state root has been committed yet', 404);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          term: commitment.term,
+          stateRoot: commitment.stateRoot,
+          txRoot: commitment.txRoot,
+          liabilities: commitment.liabilities ?? [],
+          liabilitiesRoot: commitment.liabilitiesRoot ?? null,
+          signature: commitment.signature,
+          txHash: commitment.txHash,
+          committedAt: commitment.committedAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get each token's total liabilities and the Merkle-sum root committing to it, as of the live root
+   * GET /api/state/liabilities
+   * Compare a total with the contract's token balance; balance proofs show the caller's leaf is counted in it.
+   */
+  async getLiabilities(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: {
+          stateRoot: `0x${getRoot().padStart(64, '0')}`,
+          liabilities: getLiabilities(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
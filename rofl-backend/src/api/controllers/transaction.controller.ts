@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { getTransactionHistory } from '../../services/transaction.service';
+import { getTokenDecimals } from '../../services/token.service';
+import { fromBaseUnits } from '../../utils/amount.util';
 import { TransactionHistoryItem } from '../../types/transaction.types';
 
 export class TransactionController {
@@ -18,12 +20,13 @@ export class TransactionController {
 
       const transactions = await getTransactionHistory(wallet);
 
-      // Add type (sent/received) to each transaction
+      // Add type (sent/received) to each transaction and format base-unit amounts
       const walletLower = wallet.toLowerCase();
-      const history: TransactionHistoryItem[] = transactions.map(tx => ({
+      const history: TransactionHistoryItem[] = await Promise.all(transactions.map(async tx => ({
         ...tx,
+        amount: fromBaseUnits(BigInt(tx.amount), await getTokenDecimals(tx.token)),
         type: tx.sender.toLowerCase() === walletLower ? 'sent' : 'received'
-      }));
+      })));
 
       res.json({
         success: true,
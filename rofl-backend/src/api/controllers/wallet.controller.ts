@@ -1,14 +1,129 @@
 import { Request, Response, NextFunction } from 'express';
-import { WalletService } from '../../services/wallet.service';
-import { setBalanceSecret, setTxSecret, BALANCE_SECRET_MESSAGE, TX_SECRET_MESSAGE } from '../../services/secret.service';
-import { verifyMessage } from 'viem';
+import { WalletService, releaseUnclaimedTransfers } from '../../services/wallet.service';
+import {
+  setBalanceSecret,
+  setTxSecret,
+  onboardSecrets,
+  BALANCE_SECRET_MESSAGE,
+  TX_SECRET_MESSAGE,
+  SECRETS_MESSAGE,
+  SECRET_VERSION,
+  ROTATE_SECRETS_MESSAGE,
+} from '../../services/secret.service';
+import { rotateSecrets, getSecretRotations } from '../../services/rotation.service';
+import { creditPendingDeposits } from '../../services/deposit.service';
+import { verifyWalletSignature } from '../../utils/wallet.util';
 import { AppError } from '../middlewares/errorHandler';
 
 export class WalletController {
   constructor(private readonly walletService: WalletService) {}
 
   /**
-   * Set balance secret for a wallet
+   * Set all secrets for a wallet from a single OnboardSecrets signature
+   * POST /api/wallet/onboard
+   */
+  async onboard(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+      const { signature } = req.body;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      if (!signature) {
+        throw new AppError('Signature is required', 400);
+      }
+
+      const result = await verifyWalletSignature({
+        walletAddress: wallet,
+        signature,
+        primaryType: 'OnboardSecrets',
+        message: { wallet, statement: SECRETS_MESSAGE, version: SECRET_VERSION },
+      });
+
+      if (!result.isValid) {
+        throw new AppError(result.error || 'Invalid signature', 401);
+      }
+
+      const created = await onboardSecrets(wallet, signature, result.signer);
+
+      // Deposits and transfers received before activation are credited now that the balance key exists
+      const creditedDeposits = await creditPendingDeposits(wallet);
+      const releasedTransfers = await releaseUnclaimedTransfers(wallet);
+
+      res.json({
+        success: true,
+        data: { message: 'Secrets set successfully', version: SECRET_VERSION, created, creditedDeposits, releasedTransfers },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the wallet's secrets and re-key its leaves, e.g. after a secret leaked
+   * POST /api/wallet/rotate-secrets
+   */
+  async rotateSecrets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+      const { signature, generation } = req.body;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      if (!signature || !Number.isSafeInteger(generation) || generation < 1) {
+        throw new AppError('Signature and generation are required', 400);
+      }
+
+      const result = await verifyWalletSignature({
+        walletAddress: wallet,
+        signature,
+        primaryType: 'RotateSecrets',
+        message: { wallet, statement: ROTATE_SECRETS_MESSAGE, version: SECRET_VERSION, generation },
+      });
+
+      if (!result.isValid) {
+        throw new AppError(result.error || 'Invalid signature', 401);
+      }
+
+      const rotation = await rotateSecrets(wallet, signature, result.signer ?? 'eoa', generation, req.sessionId);
+
+      res.json({
+        success: true,
+        data: rotation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Audit records of the wallet's secret rotations
+   * GET /api/wallet/secret-rotations
+   */
+  async getSecretRotations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const rotations = await getSecretRotations(wallet);
+      res.json({
+        success: true,
+        data: { rotations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set balance secret for a wallet (legacy two-signature onboarding)
    * POST /api/wallet/set-balance-secret
    */
   async setBalanceSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -24,22 +139,27 @@ export class WalletController {
         throw new AppError('Signature is required', 400);
       }
 
-      // Verify signature matches the expected message
-      const isValid = await verifyMessage({
-        address: wallet as `0x${string}`,
-        message: BALANCE_SECRET_MESSAGE,
-        signature: signature as `0x${string}`,
+      // Verify typed signature over the expected statement
+      const result = await verifyWalletSignature({
+        walletAddress: wallet,
+        signature,
+        primaryType: 'SetBalanceSecret',
+        message: { wallet, statement: BALANCE_SECRET_MESSAGE },
       });
 
-      if (!isValid) {
-        throw new AppError('Invalid signature', 401);
+      if (!result.isValid) {
+        throw new AppError(result.error || 'Invalid signature', 401);
       }
 
-      await setBalanceSecret(wallet, signature);
+      await setBalanceSecret(wallet, signature, result.signer);
+
+      // Deposits and transfers received before activation are credited now that the balance key exists
+      const creditedDeposits = await creditPendingDeposits(wallet);
+      const releasedTransfers = await releaseUnclaimedTransfers(wallet);
 
       res.json({
         success: true,
-        data: { message: 'Balance secret set successfully' },
+        data: { message: 'Balance secret set successfully', creditedDeposits, releasedTransfers },
       });
     } catch (error) {
       next(error);
@@ -47,7 +167,7 @@ export class WalletController {
   }
 
   /**
-   * Set transaction secret for a wallet
+   * Set transaction secret for a wallet (legacy two-signature onboarding)
    * POST /api/wallet/set-tx-secret
    */
   async setTxSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -63,18 +183,19 @@ export class WalletController {
         throw new AppError('Signature is required', 400);
       }
 
-      // Verify signature matches the expected message
-      const isValid = await verifyMessage({
-        address: wallet as `0x${string}`,
-        message: TX_SECRET_MESSAGE,
-        signature: signature as `0x${string}`,
+      // Verify typed signature over the expected statement
+      const result = await verifyWalletSignature({
+        walletAddress: wallet,
+        signature,
+        primaryType: 'SetTxSecret',
+        message: { wallet, statement: TX_SECRET_MESSAGE },
       });
 
-      if (!isValid) {
-        throw new AppError('Invalid signature', 401);
+      if (!result.isValid) {
+        throw new AppError(result.error || 'Invalid signature', 401);
       }
 
-      await setTxSecret(wallet, signature);
+      await setTxSecret(wallet, signature, result.signer);
 
       res.json({
         success: true,
@@ -85,6 +206,50 @@ export class WalletController {
     }
   }
 
+  /**
+   * Get nonce and domain fields to include in the next signed transfer
+   * GET /api/wallet/nonce
+   */
+  async getNonce(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const result = await this.walletService.getTransferDomain(wallet);
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw tokens from the Void contract to the authenticated wallet
+   * POST /api/wallet/withdraw
+   */
+  async withdraw(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const result = await this.walletService.withdraw(wallet, req.body);
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Transfer tokens between wallets
    * POST /api/wallet/transfer
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { getWithdrawal } from '../../services/withdrawal.service';
+import { getTokenDecimals } from '../../services/token.service';
+import { fromBaseUnits } from '../../utils/amount.util';
+import { WithdrawalView } from '../../types/withdrawal.types';
+import { AppError } from '../middlewares/errorHandler';
+
+export class WithdrawalController {
+  /**
+   * Get the status of a withdrawal made by the authenticated wallet
+   * GET /api/withdrawals/:id
+   */
+  async getWithdrawal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = req.wallet;
+
+      if (!wallet) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const record = await getWithdrawal(String(req.params.id));
+
+      // Other wallets' withdrawals are reported as missing rather than forbidden
+      if (!record || record.wallet.toLowerCase() !== wallet.toLowerCase()) {
+        throw new AppError('Withdrawal not found', 404);
+      }
+
+      const decimals = await getTokenDecimals(record.token);
+      const view: WithdrawalView = {
+        id: record.id,
+        status: record.status,
+        token: record.token,
+        amount: fromBaseUnits(BigInt(record.amount), decimals),
+        rawAmount: record.amount,
+        decimals,
+        txHash: record.txHash,
+        error: record.error,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      };
+
+      res.json({
+        success: true,
+        data: view,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
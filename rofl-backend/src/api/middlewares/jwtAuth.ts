@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../../services/auth.service';
+import { AppError } from './errorHandler';
 
 const authService = new AuthService();
 
@@ -7,11 +8,12 @@ declare global {
   namespace Express {
     interface Request {
       wallet?: string;
+      sessionId?: string;
     }
   }
 }
 
-export function jwtAuth(req: Request, res: Response, next: NextFunction): void {
+export async function jwtAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
 
@@ -21,11 +23,14 @@ export function jwtAuth(req: Request, res: Response, next: NextFunction): void {
     }
 
     const token = authHeader.substring(7);
-    const payload = authService.verifyToken(token);
+    const payload = await authService.verifyToken(token);
 
     req.wallet = payload.wallet;
-    next();
+    req.sessionId = payload.sid;
   } catch (error) {
-    res.status(401).json({ success: false, error: 'Invalid or expired token' });
+    const message = error instanceof AppError ? error.message : 'Invalid or expired token';
+    res.status(401).json({ success: false, error: message });
+    return;
   }
+  next();
 }
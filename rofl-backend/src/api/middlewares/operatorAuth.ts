@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { env } from '../../config/env';
+
+// Operator endpoints require the x-operator-key header to match OPERATOR_API_KEY; unset disables them
+export function operatorAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!env.OPERATOR_API_KEY) {
+    res.status(404).json({ success: false, error: 'Not found' });
+    return;
+  }
+
+  const provided = Buffer.from(req.header('x-operator-key') ?? '');
+  const expected = Buffer.from(env.OPERATOR_API_KEY);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    res.status(401).json({ success: false, error: 'Invalid operator key' });
+    return;
+  }
+
+  next();
+}
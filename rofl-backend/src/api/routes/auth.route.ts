@@ -10,6 +10,10 @@ const authController = new AuthController(authService);
 
 router.get('/message', (req, res, next) => authController.getMessage(req, res, next));
 router.post('/login', (req, res, next) => authController.login(req, res, next));
+router.post('/refresh', (req, res, next) => authController.refresh(req, res, next));
+router.post('/logout', jwtAuth, (req, res, next) => authController.logout(req, res, next));
+router.get('/sessions', jwtAuth, (req, res, next) => authController.getSessions(req, res, next));
+router.delete('/sessions/:id', jwtAuth, (req, res, next) => authController.revokeSession(req, res, next));
 router.get('/me', jwtAuth, (req, res, next) => authController.getMe(req, res, next));
 
 export default router;
@@ -8,5 +8,8 @@ const router = Router();
 const balanceController = new BalanceController();
 
 router.get('/', jwtAuth, requireBalanceSecret, (req, res, next) => balanceController.getBalances(req, res, next));
+router.get('/proof', jwtAuth, requireBalanceSecret, (req, res, next) => balanceController.getProof(req, res, next));
+router.get('/journal', jwtAuth, requireBalanceSecret, (req, res, next) => balanceController.getJournal(req, res, next));
+router.get('/exit-kit', jwtAuth, requireBalanceSecret, (req, res, next) => balanceController.getExitKit(req, res, next));
 
 export default router;
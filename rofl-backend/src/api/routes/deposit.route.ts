@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { DepositController } from '../controllers/deposit.controller';
+import { jwtAuth } from '../middlewares/jwtAuth';
+
+const router = Router();
+
+const depositController = new DepositController();
+
+// Pending deposits are visible before the balance secret is set (JWT only)
+router.get('/pending', jwtAuth, (req, res, next) => depositController.getPending(req, res, next));
+
+export default router;
@@ -4,7 +4,11 @@ import walletRouter from './wallet.route';
 import balanceRouter from './balance.route';
 import transactionRouter from './transaction.route';
 import webhookRouter from './webhook.route';
+import depositRouter from './deposit.route';
+import withdrawalRouter from './withdrawal.route';
+import stateRouter from './state.route';
 import roflRouter from './rofl.route';
+import operatorRouter from './operator.route';
 
 export const createRouter = (): Router => {
     const router = Router();
@@ -14,7 +18,11 @@ export const createRouter = (): Router => {
     router.use('/balance', balanceRouter);
     router.use('/transactions', transactionRouter);
     router.use('/webhook', webhookRouter);
+    router.use('/deposits', depositRouter);
+    router.use('/withdrawals', withdrawalRouter);
+    router.use('/state', stateRouter);
     router.use('/rofl', roflRouter);
+    router.use('/operator', operatorRouter);
 
     return router;
 };
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { OperatorController } from '../controllers/operator.controller';
+import { operatorAuth } from '../middlewares/operatorAuth';
+
+const router = Router();
+
+const operatorController = new OperatorController();
+
+router.get('/reconciliation', operatorAuth, (req, res, next) => operatorController.getReconciliation(req, res, next));
+router.post('/reconciliation', operatorAuth, (req, res, next) => operatorController.runReconciliation(req, res, next));
+router.get('/integrity', operatorAuth, (req, res, next) => operatorController.getIntegrity(req, res, next));
+router.post('/integrity', operatorAuth, (req, res, next) => operatorController.runIntegrityCheck(req, res, next));
+
+export default router;
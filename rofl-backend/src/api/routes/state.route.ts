@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { StateController } from '../controllers/state.controller';
+
+const router = Router();
+
+const stateController = new StateController();
+
+router.get('/root', (req, res, next) => stateController.getLastRoot(req, res, next));
+router.get('/liabilities', (req, res, next) => stateController.getLiabilities(req, res, next));
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { WithdrawalController } from '../controllers/withdrawal.controller';
+import { jwtAuth } from '../middlewares/jwtAuth';
+
+const router = Router();
+
+const withdrawalController = new WithdrawalController();
+
+router.get('/:id', jwtAuth, (req, res, next) => withdrawalController.getWithdrawal(req, res, next));
+
+export default router;
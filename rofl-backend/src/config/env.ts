@@ -12,4 +12,31 @@ export const env = {
     ALCHEMY_SIGNING_KEY: process.env.ALCHEMY_SIGNING_KEY || '',
     VOID_CONTRACT_ADDRESS: process.env.VOID_CONTRACT_ADDRESS || '0x4aE649044CC818A00fA20266aE5d5b77E79089C3',
     BASE_SEPOLIA_RPC_URL: process.env.BASE_SEPOLIA_RPC_URL || '',
+    CHAIN_ID: parseInt(process.env.CHAIN_ID || '84532', 10),
+    SMT_CACHE_SIZE: parseInt(process.env.SMT_CACHE_SIZE || '50000', 10),
+    INDEXER_ENABLED: process.env.INDEXER_ENABLED !== 'false',
+    INDEXER_RPC_URL: process.env.INDEXER_RPC_URL || process.env.BASE_SEPOLIA_RPC_URL || '',
+    INDEXER_START_BLOCK: process.env.INDEXER_START_BLOCK || '',
+    INDEXER_CONFIRMATIONS: parseInt(process.env.INDEXER_CONFIRMATIONS || '5', 10),
+    INDEXER_POLL_INTERVAL_MS: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '5000', 10),
+    INDEXER_BLOCK_RANGE: parseInt(process.env.INDEXER_BLOCK_RANGE || '2000', 10),
+    WITHDRAWAL_POLL_INTERVAL_MS: parseInt(process.env.WITHDRAWAL_POLL_INTERVAL_MS || '5000', 10),
+    WITHDRAWAL_MAX_ATTEMPTS: parseInt(process.env.WITHDRAWAL_MAX_ATTEMPTS || '10', 10),
+    WITHDRAWAL_DROP_CONFIRMATIONS: parseInt(process.env.WITHDRAWAL_DROP_CONFIRMATIONS || '20', 10),
+    LIVENESS_CHECK_INTERVAL_MS: parseInt(process.env.LIVENESS_CHECK_INTERVAL_MS || '300000', 10),
+    LIVENESS_RETRY_INTERVAL_MS: parseInt(process.env.LIVENESS_RETRY_INTERVAL_MS || '30000', 10),
+    LIVENESS_PING_AFTER_FRACTION: parseFloat(process.env.LIVENESS_PING_AFTER_FRACTION || '0.5'),
+    STATE_ROOT_PUBLISH_INTERVAL_MS: parseInt(process.env.STATE_ROOT_PUBLISH_INTERVAL_MS || '3600000', 10),
+    STATE_ROOT_PUBLISH_AFTER_MUTATIONS: parseInt(process.env.STATE_ROOT_PUBLISH_AFTER_MUTATIONS || '100', 10),
+    STATE_ROOT_RETRY_INTERVAL_MS: parseInt(process.env.STATE_ROOT_RETRY_INTERVAL_MS || '60000', 10),
+    RECONCILIATION_INTERVAL_MS: parseInt(process.env.RECONCILIATION_INTERVAL_MS || '3600000', 10),
+    DEPOSIT_MARKERS_RETRY_INTERVAL_MS: parseInt(process.env.DEPOSIT_MARKERS_RETRY_INTERVAL_MS || '60000', 10),
+    OPERATOR_API_KEY: process.env.OPERATOR_API_KEY || '',
+    ACCESS_TOKEN_TTL_SECONDS: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10),
+    REFRESH_TOKEN_TTL_MS: parseInt(process.env.REFRESH_TOKEN_TTL_MS || '2592000000', 10),
+    SIWE_DOMAIN: process.env.SIWE_DOMAIN || 'localhost:3000',
+    SIWE_URI: process.env.SIWE_URI || `http://${process.env.SIWE_DOMAIN || 'localhost:3000'}`,
+    SIWE_MESSAGE_TTL_MS: parseInt(process.env.SIWE_MESSAGE_TTL_MS || '600000', 10),
+    SIWE_MAX_PENDING_NONCES: parseInt(process.env.SIWE_MAX_PENDING_NONCES || '10000', 10),
+    NONCE_PRUNE_INTERVAL_MS: parseInt(process.env.NONCE_PRUNE_INTERVAL_MS || '600000', 10),
 } as const;
\ No newline at end of file
@@ -6,8 +6,16 @@ import cors from 'cors';
 
 import { initializeBalanceService } from './services/balance.service';
 import { initializeTransactionService } from './services/transaction.service';
+import { initializeJournal } from './services/journal.service';
+import { startDepositMarkerScan, stopDepositMarkerScan } from './services/webhook.service';
 import { initializeDatabase, closeDatabase } from './services/db.service';
 import { initializeRoflWallet } from './services/rofl.service';
+import { startWithdrawalWorker, stopWithdrawalWorker } from './services/withdrawal.service';
+import { startIndexer, stopIndexer } from './services/indexer.service';
+import { getLivenessStatus, startLivenessPinger, stopLivenessPinger } from './services/liveness.service';
+import { startStateRootPublisher, stopStateRootPublisher } from './services/stateRoot.service';
+import { startReconciliationJob, stopReconciliationJob } from './services/reconciliation.service';
+import { startNoncePruner, stopNoncePruner } from './services/auth.service';
 import { hasTxSecret, setTxSecret, hasBalanceSecret, setBalanceSecret } from './services/secret.service';
 import { createApiRouter } from './api';
 import { errorHandler } from './api/middlewares/errorHandler';
@@ -28,7 +36,7 @@ app.use(express.json({
 
 // Routes
 app.get('/health', (req, res) => {
-  res.json({ success: true, data: { status: 'ok' } });
+  res.json({ success: true, data: { status: 'ok', liveness: getLivenessStatus() } });
 });
 
 app.use('/api', createApiRouter());
@@ -45,6 +53,13 @@ const start = async () => {
   await initializeBalanceService();
   await initializeTransactionService();
 
+  // Record existing balances as opening entries before anything is posted to the journal
+  await initializeJournal();
+
+  // Mark deposits credited before per-log markers existed, so they are not credited twice.
+  // Scans old logs in the background; deposits are credited once it has finished
+  startDepositMarkerScan();
+
   // Initialize contract secrets if not set
   const contractAddress = env.VOID_CONTRACT_ADDRESS;
   const defaultSecret = '0x' + '0'.repeat(64);
@@ -62,8 +77,26 @@ const start = async () => {
   // Initialize ROFL wallet
   if (env.IS_TEE === 'true') {
     await initializeRoflWallet();
+
+    // Ping the contract so the TEE is not marked dead
+    startLivenessPinger();
+
+    // Commit signed state roots on-chain so emergency exits have a recent root to prove against
+    startStateRootPublisher();
   }
 
+  // Advance requested withdrawals, including any interrupted by the last shutdown
+  startWithdrawalWorker();
+
+  // Drop login nonces that expired unused
+  startNoncePruner();
+
+  // Detect deposits and contract lifecycle events from chain
+  startIndexer();
+
+  // Check that the contract holds what the ledger owes
+  startReconciliationJob();
+
   const server = app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
@@ -72,6 +105,13 @@ const start = async () => {
   const shutdown = async () => {
     console.log('Shutting down gracefully...');
     server.close();
+    stopIndexer();
+    stopDepositMarkerScan();
+    stopWithdrawalWorker();
+    stopLivenessPinger();
+    stopStateRootPublisher();
+    stopReconciliationJob();
+    stopNoncePruner();
     await closeDatabase();
     process.exit(0);
   };
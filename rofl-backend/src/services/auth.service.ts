@@ -1,34 +1,112 @@
 import jwt from 'jsonwebtoken';
-import { getAddress, recoverMessageAddress } from 'viem';
-import { LoginRequest, LoginResponse, JwtPayload, MeResponse } from '../types/auth.types';
+import { getAddress } from 'viem';
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import {
+  LoginRequest,
+  LoginResponse,
+  JwtPayload,
+  MeResponse,
+  LoginMessageResponse,
+  LoginNonce,
+  RefreshRequest,
+  SessionClient,
+  SessionInfo,
+} from '../types/auth.types';
 import { AppError } from '../api/middlewares/errorHandler';
-import { hasBalanceSecret, hasTxSecret } from './secret.service';
+import { getSecretSeed, getSecretSource, getSecretVersion, hasBalanceSecret, hasTxSecret } from './secret.service';
+import { verifyMessageSignature } from '../utils/wallet.util';
+import { dbBatch, dbDel, dbGet, dbGetAll, dbPut, DbOperation } from './db.service';
+import { createSession, getSession, isSessionActive, listSessions, revokeSession, rotateRefreshToken } from './session.service';
+import { env } from '../config/env';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRY = '7d';
-
-/** Normalize signature to 65-byte (r,s,v) hex. Handles 64-byte EIP-2098 compact from some wallets. */
-function normalizeSignature(sig: string): `0x${string}` {
-  const raw = typeof sig !== 'string' ? '' : sig.trim();
-  const hex = raw.startsWith('0x') ? raw.slice(2) : raw;
-  if (hex.length === 130) return raw as `0x${string}`;
-  if (hex.length !== 128) return raw as `0x${string}`;
-  const r = hex.slice(0, 64);
-  const sCompact = BigInt('0x' + hex.slice(64, 128));
-  const yParity = Number((sCompact >> 255n) & 1n);
-  const s = (sCompact & ((1n << 255n) - 1n)).toString(16).padStart(64, '0');
-  const v = (27 + yParity).toString(16).padStart(2, '0');
-  return (`0x${r}${s}${v}`) as `0x${string}`;
-}
+
+// auth:nonce:<address>:<nonce> -> LoginNonce (address lowercased)
+const NONCE_PREFIX = 'auth:nonce:';
+const LOGIN_STATEMENT = 'Sign in to Cloak Wallet.';
+// Tolerated drift between the wallet's clock and ours for Issued At
+const CLOCK_SKEW_MS = 60_000;
+
+// Nonces being redeemed right now; a second login with the same nonce fails instead of racing the first
+const redeeming = new Set<string>();
+
+let pruneTimer: NodeJS.Timeout | null = null;
+let pruning = false;
+
+const nonceKey = (address: string, nonce: string): string => `${NONCE_PREFIX}${address.toLowerCase()}:${nonce}`;
+
+// Messages that were never signed leave their nonces behind; drop them once they expire
+const pruneExpiredNonces = async (): Promise<void> => {
+  const now = Date.now();
+  const entries = await dbGetAll(NONCE_PREFIX);
+  const expired = entries.filter(entry => (JSON.parse(entry.value) as LoginNonce).expiresAt <= now);
+  if (expired.length > 0) {
+    await dbBatch(expired.map((entry): DbOperation => ({ type: 'del', key: entry.key })));
+  }
+};
+
+// Prune expired nonces every NONCE_PRUNE_INTERVAL_MS until stopNoncePruner is called
+export const startNoncePruner = (): void => {
+  const tick = async () => {
+    try {
+      await pruneExpiredNonces();
+    } catch (error) {
+      console.error('Nonce pruning failed:', error);
+    }
+    if (pruning) pruneTimer = setTimeout(tick, env.NONCE_PRUNE_INTERVAL_MS);
+  };
+
+  pruning = true;
+  void tick();
+};
+
+export const stopNoncePruner = (): void => {
+  pruning = false;
+  if (pruneTimer) clearTimeout(pruneTimer);
+  pruneTimer = null;
+};
 
 export class AuthService {
-  generateMessage(address: string): string {
-    const checksummedAddress = getAddress(address);
-    const timestamp = Date.now();
-    return `Login Cloak Wallet Timestamp:${timestamp}`;
+  /** Issue an EIP-4361 message bound to this server, chain and a fresh single-use nonce. */
+  async generateMessage(address: string): Promise<LoginMessageResponse> {
+    let checksummedAddress: `0x${string}`;
+    try {
+      checksummedAddress = getAddress(address);
+    } catch {
+      throw new AppError('Invalid address', 400);
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = issuedAt.getTime() + env.SIWE_MESSAGE_TTL_MS;
+    const nonce = generateSiweNonce();
+
+    // Anyone can request a message for any address, so pending nonces are never evicted to make room:
+    // at SIWE_MAX_PENDING_NONCES across all addresses new ones are refused until others expire or are used
+    const pending = (await dbGetAll(NONCE_PREFIX))
+      .filter(entry => (JSON.parse(entry.value) as LoginNonce).expiresAt > issuedAt.getTime());
+    if (pending.length >= env.SIWE_MAX_PENDING_NONCES) {
+      throw new AppError('Too many pending login messages, try again later', 429);
+    }
+
+    const record: LoginNonce = { address: checksummedAddress, expiresAt };
+    await dbPut(nonceKey(checksummedAddress, nonce), JSON.stringify(record));
+
+    const message = createSiweMessage({
+      domain: env.SIWE_DOMAIN,
+      address: checksummedAddress,
+      statement: LOGIN_STATEMENT,
+      uri: env.SIWE_URI,
+      version: '1',
+      chainId: env.CHAIN_ID,
+      nonce,
+      issuedAt,
+      expirationTime: new Date(expiresAt),
+    });
+
+    return { message, nonce, expiresAt };
   }
 
-  async login(request: LoginRequest): Promise<LoginResponse> {
+  async login(request: LoginRequest, client: SessionClient = {}): Promise<LoginResponse> {
     const address = request?.address;
     const message = typeof request?.message === 'string' ? request.message.trim() : '';
     const signature = request?.signature;
@@ -39,21 +117,18 @@ export class AuthService {
 
     try {
       const expectedAddress = getAddress(address);
-      const sigHex = normalizeSignature(signature);
-
-      const recoveredAddress = await recoverMessageAddress({
-        message,
-        signature: sigHex,
-      });
-
-      if (recoveredAddress.toLowerCase() !== expectedAddress.toLowerCase()) {
-        throw new AppError('Signature does not match address', 401);
+      const nonce = this.validateMessage(message, expectedAddress);
+      // EOA signatures are recovered locally; smart-contract wallets are checked with EIP-1271 / EIP-6492
+      const result = await verifyMessageSignature(expectedAddress, message, signature);
+      if (!result.isValid) {
+        throw new AppError(result.error === 'Invalid signature' ? 'Signature does not match address' : 'Signature verification failed', 401);
       }
 
-      const payload: JwtPayload = { wallet: expectedAddress };
-      const token = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRY });
+      // Only a correctly signed message uses up its nonce
+      await this.redeemNonce(nonce, expectedAddress);
 
-      return { token, wallet: expectedAddress };
+      const { session, refreshToken } = await createSession(expectedAddress, client);
+      return { ...this.issueAccessToken(expectedAddress, session.id), refreshToken, wallet: expectedAddress };
     } catch (error) {
       if (error instanceof AppError) throw error;
       console.error('Login verification error:', error);
@@ -61,13 +136,103 @@ export class AuthService {
     }
   }
 
-  verifyToken(token: string): JwtPayload {
+  /** Check every field of a login message against what this server issues; returns its nonce. */
+  private validateMessage(message: string, address: `0x${string}`): string {
+    const fields = parseSiweMessage(message);
+    const now = new Date();
+
+    if (!fields.nonce || !fields.issuedAt || !fields.expirationTime || !fields.uri) {
+      throw new AppError('Login message is not a valid Sign-In with Ethereum message', 401);
+    }
+    if (isNaN(fields.issuedAt.getTime()) || isNaN(fields.expirationTime.getTime())) {
+      throw new AppError('Login message has an invalid timestamp', 401);
+    }
+    if (!validateSiweMessage({ message: fields, address, domain: env.SIWE_DOMAIN, time: now })) {
+      throw new AppError('Login message is expired or was issued for another domain or address', 401);
+    }
+    if (fields.version !== '1' || fields.chainId !== env.CHAIN_ID || fields.uri !== env.SIWE_URI) {
+      throw new AppError('Login message was issued for another chain or URI', 401);
+    }
+    if (fields.issuedAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+      throw new AppError('Login message is issued in the future', 401);
+    }
+
+    return fields.nonce;
+  }
+
+  /** Delete a nonce issued to address; fails if it is unknown, expired or already used. */
+  private async redeemNonce(nonce: string, address: string): Promise<void> {
+    if (redeeming.has(nonce)) {
+      throw new AppError('Login nonce is unknown, expired or already used', 401);
+    }
+    redeeming.add(nonce);
+
+    try {
+      const key = nonceKey(address, nonce);
+      const stored = await dbGet(key);
+      const record: LoginNonce | null = stored ? JSON.parse(stored) : null;
+      if (!record || record.expiresAt <= Date.now() || record.address.toLowerCase() !== address.toLowerCase()) {
+        throw new AppError('Login nonce is unknown, expired or already used', 401);
+      }
+      await dbDel(key);
+    } finally {
+      redeeming.delete(nonce);
+    }
+  }
+
+  /** Exchange a refresh token for a new access token and refresh token. */
+  async refresh(request: RefreshRequest): Promise<LoginResponse> {
+    const refreshToken = typeof request?.refreshToken === 'string' ? request.refreshToken : '';
+    if (!refreshToken) {
+      throw new AppError('Missing refresh token', 400);
+    }
+
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (!rotated) {
+      throw new AppError('Invalid or expired refresh token', 401);
+    }
+
+    const { session } = rotated;
+    return { ...this.issueAccessToken(session.wallet, session.id), refreshToken: rotated.refreshToken, wallet: session.wallet };
+  }
+
+  /** Access tokens are only valid while their session is; revoking it logs the token out before it expires. */
+  async verifyToken(token: string): Promise<JwtPayload> {
+    let decoded: JwtPayload;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-      return decoded;
+      decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
     } catch (error) {
       throw new AppError('Invalid or expired token', 401);
     }
+
+    const session = decoded.sid ? await getSession(decoded.sid) : null;
+    if (!session || !isSessionActive(session) || session.wallet.toLowerCase() !== decoded.wallet.toLowerCase()) {
+      throw new AppError('Session has been revoked or has expired', 401);
+    }
+    return decoded;
+  }
+
+  async logout(sessionId: string): Promise<void> {
+    await revokeSession(sessionId, 'logout');
+  }
+
+  async listSessions(wallet: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    return listSessions(wallet, currentSessionId);
+  }
+
+  /** Revoke one of the wallet's own sessions. */
+  async revokeSession(wallet: string, sessionId: string): Promise<void> {
+    const session = await getSession(sessionId);
+    if (!session || session.wallet.toLowerCase() !== wallet.toLowerCase() || !isSessionActive(session)) {
+      throw new AppError('Session not found', 404);
+    }
+    await revokeSession(sessionId, 'revoked');
+  }
+
+  private issueAccessToken(wallet: string, sessionId: string): { token: string; expiresAt: number } {
+    const payload: JwtPayload = { wallet, sid: sessionId };
+    const token = jwt.sign(payload, JWT_SECRET, { expiresIn: env.ACCESS_TOKEN_TTL_SECONDS });
+    return { token, expiresAt: Date.now() + env.ACCESS_TOKEN_TTL_SECONDS * 1000 };
   }
 
   async getMe(wallet: string): Promise<MeResponse> {
@@ -83,6 +248,12 @@ export class AuthService {
       required_secrets.push('transaction');
     }
 
-    return { wallet, required_secrets };
+    return {
+      wallet,
+      required_secrets,
+      secret_source: await getSecretSource(wallet),
+      secret_version: await getSecretVersion(wallet, 'balance'),
+      secret_generation: (await getSecretSeed(wallet))?.generation ?? 0,
+    };
   }
 }
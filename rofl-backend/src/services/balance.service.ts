@@ -1,28 +1,35 @@
-import { SMT } from '@cedoor/smt';
 import { toBytes, concat } from 'viem';
 import { keccak256 } from 'ethers';
-import { BalanceProof, BalanceWithProof } from '../types/balance.types';
-import { dbGet, dbPut, dbGetAll } from './db.service';
-import { getBalanceSecret } from './secret.service';
-
-// In-memory SMT instance
-let smt: SMT;
-
-// Precision factor for storing decimals as BigInt (10^18)
-const PRECISION = BigInt(10 ** 18);
-
-// Convert decimal string to hex for storage
-const toHexBalance = (balance: string): string => {
-  const num = parseFloat(balance);
-  const bigVal = BigInt(Math.floor(num * Number(PRECISION)));
-  return normalize(bigVal.toString(16));
+import { RecordLeaf } from '../types/integrity.types';
+import { BalanceSecretInfo } from '../types/wallet.types';
+import { AccountProof, BalanceEntry, BalanceProof, BalanceWithProof, TokenLiabilities } from '../types/balance.types';
+import { dbGet, dbGetAll, dbBatch, DbOperation } from './db.service';
+import { runStateTransition, StateTransaction } from './state.service';
+import { getBalanceSecret, getBalanceSecretInfo, getRetiredSecrets } from './secret.service';
+import { getTokenDecimals } from './token.service';
+import { legacyToBaseUnits } from '../utils/amount.util';
+import { PersistentSMT } from '../utils/smt.util';
+import { hashSumNode, SumNode, verifyInclusion, verifySumInclusion } from 'smt-verifier';
+import { env } from '../config/env';
+
+// SMT backed by RocksDB; nodes are loaded lazily
+let smt: PersistentSMT;
+
+// One Merkle-sum tree per token over the same leaves as smt; each root commits to the token's total
+const sumTrees = new Map<string, PersistentSMT>();
+
+// Balances are stored in raw token base units; version 1 stored float-formatted decimal strings
+const LEDGER_VERSION_KEY = 'meta:balance-ledger-version';
+const LEDGER_VERSION = '2';
+
+// Convert a base-unit balance to a hex SMT leaf value
+const toHexBalance = (balance: bigint): string => {
+  return normalize(balance.toString(16));
 };
 
-// Convert hex back to decimal string
-const fromHexBalance = (value: string): string => {
-  const bigVal = BigInt('0x' + value);
-  const num = Number(bigVal) / Number(PRECISION);
-  return num.toString();
+// Convert a hex SMT leaf value back to base units
+const fromHexBalance = (value: string): bigint => {
+  return BigInt('0x' + normalize(value));
 };
 
 // Normalize hex string (strip 0x, pad to 64 chars)
@@ -31,12 +38,36 @@ const normalize = (hex: string): string => {
   return h.padStart(64, '0');
 };
 
+// SMT node form of a root: 64 hex chars, except the empty tree whose root is '0'
+const toSmtRoot = (root: string): string => {
+  const h = normalize(root).toLowerCase();
+  return /^0+$/.test(h) ? '0' : h;
+};
+
 // Hash function for SMT (must return hex string)
 const hash = (childNodes: (string | bigint)[]): string => {
   const concatenated = childNodes.map(n => normalize(String(n))).join('');
   return normalize(keccak256(toBytes('0x' + concatenated)));
 };
 
+// Merkle-sum node ids are the 64-hex node hash followed by the 64-hex sum of the balances below it
+const splitSumNode = (node: string): SumNode => {
+  if (node === '0') return { hash: `0x${normalize('0')}`, sum: 0n };
+  return { hash: `0x${node.slice(0, 64)}`, sum: BigInt('0x' + node.slice(64)) };
+};
+
+const joinSumNode = ({ hash, sum }: SumNode): string => {
+  return sum === 0n && BigInt(hash) === 0n ? '0' : normalize(hash) + normalize(sum.toString(16));
+};
+
+// Hash function for the sum trees: leaves keep the balance tree's leaf hash and count their value
+const sumHash = (childNodes: (string | bigint)[]): string => {
+  if (childNodes.length === 3) {
+    return hash(childNodes) + normalize(String(childNodes[1]));
+  }
+  return joinSumNode(hashSumNode(splitSumNode(String(childNodes[0])), splitSumNode(String(childNodes[1]))));
+};
+
 // Generate key for SMT leaf (returns hex string)
 export const generateKey = (wallet: string, token: string, userSecret: string): string => {
   const combined = concat([
@@ -48,18 +79,53 @@ export const generateKey = (wallet: string, token: string, userSecret: string):
 };
 
 // Initialize the balance service
-export const initializeBalanceService = async (): Promise<void> => {
+// readOnly writes nothing: the rows must already be migrated, and trees that were never persisted stay empty
+export const initializeBalanceService = async ({ readOnly = false }: { readOnly?: boolean } = {}): Promise<void> => {
   // Initialize SMT with keccak256 hash
-  smt = new SMT(hash);
+  smt = new PersistentSMT('balance', hash, env.SMT_CACHE_SIZE);
 
-  // Load existing data from RocksDB
-  await loadFromDatabase();
+  if (readOnly) {
+    if ((await dbGet(LEDGER_VERSION_KEY)) !== LEDGER_VERSION) {
+      throw new Error('Balance rows have not been migrated; start the server once before opening them read-only');
+    }
+    await smt.load();
+  } else {
+    // Convert legacy decimal balances to base units before building the tree
+    await migrateLegacyBalances();
+
+    // Only the persisted root is read; trees created before nodes were persisted are imported once
+    if (!(await smt.load())) {
+      await loadFromDatabase();
+    }
+  }
+  await loadSumTrees(readOnly);
 
   console.log('Balance service initialized with SMT');
   console.log('SMT Root:', getRoot());
 };
 
-// Load balances from RocksDB and rebuild SMT
+// Rewrite version 1 balance rows (float decimal strings) as base-unit integers
+const migrateLegacyBalances = async (): Promise<void> => {
+  if ((await dbGet(LEDGER_VERSION_KEY)) === LEDGER_VERSION) return;
+
+  const entries = await dbGetAll('balance:');
+  const operations: DbOperation[] = [];
+  for (const entry of entries) {
+    const token = entry.key.split(':')[2];
+    const decimals = await getTokenDecimals(token);
+    const raw = legacyToBaseUnits(entry.value, decimals) ?? 0n;
+    operations.push({ type: 'put', key: entry.key, value: raw.toString() });
+  }
+
+  // Written together with the version marker so a restart never converts a row twice
+  operations.push({ type: 'put', key: LEDGER_VERSION_KEY, value: LEDGER_VERSION });
+  await dbBatch(operations);
+  if (entries.length > 0) {
+    console.log(`Migrated ${entries.length} balance entries to base units`);
+  }
+};
+
+// Import balance rows into a fresh persistent SMT
 const loadFromDatabase = async (): Promise<void> => {
   const entries = await dbGetAll('balance:');
 
@@ -71,49 +137,112 @@ const loadFromDatabase = async (): Promise<void> => {
   console.log(`Loading ${entries.length} balance entries from database...`);
   let loadedCount = 0;
 
+  // One transition: an interrupted import leaves no root behind and is simply redone
+  await runStateTransition(async (tx) => {
+    for (const entry of entries) {
+      // Key format: balance:wallet:token
+      const parts = entry.key.split(':');
+      const walletAddr = parts[1];
+      const tokenAddr = parts[2];
+      const balance = BigInt(entry.value);
+
+      // Get user's secret to generate SMT key
+      const userSecret = await getBalanceSecret(walletAddr);
+      if (!userSecret) {
+        console.warn(`Skipping balance for ${walletAddr} - no secret found`);
+        continue;
+      }
+      const key = generateKey(walletAddr, tokenAddr, userSecret);
+      await smt.set(key, toHexBalance(balance), tx.changesFor(smt));
+
+      loadedCount++;
+    }
+  });
+
+  console.log(`Loaded ${loadedCount} balance entries from database`);
+};
+
+const loadSumTree = async (token: string): Promise<boolean> => {
+  const tree = new PersistentSMT(`balance-sum:${token}`, sumHash, env.SMT_CACHE_SIZE);
+  sumTrees.set(token, tree);
+  return tree.load();
+};
+
+// Sum tree of a token, created when the token gets its first balance
+const getSumTree = async (token: string): Promise<PersistentSMT> => {
+  const tokenLower = token.toLowerCase();
+  if (!sumTrees.has(tokenLower)) {
+    await loadSumTree(tokenLower);
+  }
+  return sumTrees.get(tokenLower) as PersistentSMT;
+};
+
+// Load the sum tree of every token in the ledger; tokens whose tree was never stored
+// (ledgers from before sum trees) are built from the balance rows in one transition
+const loadSumTrees = async (readOnly: boolean): Promise<void> => {
+  const entries = await dbGetAll('balance:');
+  const missing = new Set<string>();
+
   for (const entry of entries) {
-    // Key format: balance:wallet:token
-    const parts = entry.key.split(':');
-    const walletAddr = parts[1];
-    const tokenAddr = parts[2];
-    const balance = entry.value;
-
-    // Get user's secret to generate SMT key
-    const userSecret = await getBalanceSecret(walletAddr);
-    if (!userSecret) {
-      console.warn(`Skipping balance for ${walletAddr} - no secret found`);
-      continue;
+    const token = entry.key.split(':')[2];
+    if (!sumTrees.has(token) && !(await loadSumTree(token))) {
+      missing.add(token);
     }
-    const key = generateKey(walletAddr, tokenAddr, userSecret);
-    const hexBalance = toHexBalance(balance);
-    
-    // Check if key exists and update or add accordingly
-    const exists = smt.get(key);
-    if (exists) {
-      smt.update(key, hexBalance);
-    } else {
-      smt.add(key, hexBalance);
+  }
+  if (missing.size === 0 || readOnly) return;
+
+  await runStateTransition(async (tx) => {
+    for (const entry of entries) {
+      const [, walletAddr, tokenAddr] = entry.key.split(':');
+      if (!missing.has(tokenAddr)) continue;
+
+      const userSecret = await getBalanceSecret(walletAddr);
+      if (!userSecret) continue;
+
+      const tree = sumTrees.get(tokenAddr) as PersistentSMT;
+      const key = generateKey(walletAddr, tokenAddr, userSecret);
+      await tree.set(key, toHexBalance(BigInt(entry.value)), tx.changesFor(tree));
     }
+  });
 
-    loadedCount++;
-  }
+  console.log(`Built sum trees for ${missing.size} token(s)`);
+};
 
-  console.log(`Loaded ${loadedCount} balance entries from database`);
+// Stage a leaf in the balance tree and in the token's sum tree
+const stageLeaf = async (key: string, token: string, balance: bigint, tx: StateTransaction): Promise<void> => {
+  const sumTree = await getSumTree(token);
+  await smt.set(key, toHexBalance(balance), tx.changesFor(smt));
+  await sumTree.set(key, toHexBalance(balance), tx.changesFor(sumTree));
 };
 
-// Get balance for wallet + token
-export const getBalance = async (wallet: string, token: string): Promise<string> => {
+// Get balance for wallet + token in base units; pass tx to include its staged changes
+export const getBalance = async (wallet: string, token: string, tx?: StateTransaction): Promise<bigint> => {
   const userSecret = await getBalanceSecret(wallet);
   if (!userSecret) {
-    return '0';
+    return 0n;
   }
 
   const key = generateKey(wallet, token, userSecret);
-  const value = smt.get(key);
-  return value ? fromHexBalance(String(value)) : '0';
+  const value = await smt.get(key, tx?.changesFor(smt));
+  return value ? fromHexBalance(value) : 0n;
 };
 
-// Get all balances for a wallet from database with proofs
+// Tokens the wallet has a ledger entry for
+export const getWalletTokens = async (wallet: string): Promise<string[]> => {
+  const entries = await dbGetAll(`balance:${wallet.toLowerCase()}:`);
+  return entries.map((entry) => entry.key.split(':')[2]);
+};
+
+// Every ledger balance (base units) across wallets
+export const getLedgerBalances = async (): Promise<BalanceEntry[]> => {
+  const entries = await dbGetAll('balance:');
+  return entries.map((entry) => {
+    const [, wallet, token] = entry.key.split(':');
+    return { wallet, token, balance: entry.value };
+  });
+};
+
+// Get all balances (base units) for a wallet from database with proofs
 export const getAllBalances = async (wallet: string): Promise<BalanceWithProof[]> => {
   const prefix = `balance:${wallet.toLowerCase()}:`;
   const entries = await dbGetAll(prefix);
@@ -129,67 +258,157 @@ export const getAllBalances = async (wallet: string): Promise<BalanceWithProof[]
   }));
 };
 
-// Set balance for wallet + token
-export const setBalance = async (wallet: string, token: string, balance: string): Promise<void> => {
+// Update balance in base units; only journal postings call this, so every balance change goes through the journal
+export const updateBalance = async (wallet: string, token: string, newBalance: bigint, tx: StateTransaction): Promise<void> => {
   const userSecret = await getBalanceSecret(wallet);
   if (!userSecret) {
     throw new Error('User has not set balance secret');
   }
 
   const key = generateKey(wallet, token, userSecret);
-  const hexBalance = toHexBalance(balance);
-  
-  // Check if key exists and update or add accordingly
-  const exists = smt.get(key);
-  if (exists) {
-    smt.update(key, hexBalance);
-  } else {
-    smt.add(key, hexBalance);
-  }
+  await stageLeaf(key, token, newBalance, tx);
 
-  // Persist to RocksDB
   const dbKey = `balance:${wallet.toLowerCase()}:${token.toLowerCase()}`;
-  await dbPut(dbKey, balance);
+  tx.put(dbKey, newBalance.toString());
 };
 
-// Update balance (for transfers)
-export const updateBalance = async (wallet: string, token: string, newBalance: string): Promise<void> => {
-  const userSecret = await getBalanceSecret(wallet);
-  if (!userSecret) {
-    throw new Error('User has not set balance secret');
+// Move every balance leaf of the wallet from its key under oldSecret to its key under newSecret, in the
+// balance tree and the token's sum tree; the old keys are removed. Returns the number of leaves moved.
+export const rekeyBalanceLeaves = async (
+  wallet: string,
+  oldSecret: string,
+  newSecret: string,
+  tx: StateTransaction
+): Promise<number> => {
+  let moved = 0;
+  for (const token of await getWalletTokens(wallet)) {
+    const oldKey = generateKey(wallet, token, oldSecret);
+    const value = await smt.get(oldKey, tx.changesFor(smt));
+    if (value === undefined) continue;
+
+    const sumTree = await getSumTree(token);
+    await smt.delete(oldKey, tx.changesFor(smt));
+    await sumTree.delete(oldKey, tx.changesFor(sumTree));
+    await stageLeaf(generateKey(wallet, token, newSecret), token, fromHexBalance(value), tx);
+    moved++;
   }
+  return moved;
+};
 
-  const key = generateKey(wallet, token, userSecret);
-  const exists = smt.get(key);
+// Sum tree root of the token: the live one, or the one recorded with a committed root
+const sumRootFor = (token: string, root?: string, liabilities?: TokenLiabilities): string | undefined => {
+  if (root === undefined) return sumTrees.get(token.toLowerCase())?.root;
+  if (!liabilities) return undefined;
+  return joinSumNode({ hash: `0x${normalize(liabilities.sumRoot)}`, sum: BigInt(liabilities.total) });
+};
 
-  if (exists) {
-    smt.update(key, toHexBalance(newBalance));
-  } else {
-    smt.add(key, toHexBalance(newBalance));
-  }
+// Sum fields of a balance proof; empty when the key has no leaf in the token's sum tree under sumRoot
+const getSumProof = async (key: string, token: string, sumRoot?: string): Promise<Partial<BalanceProof>> => {
+  const tree = sumTrees.get(token.toLowerCase());
+  if (!tree || sumRoot === undefined || sumRoot === '0') return {};
 
-  // Persist to RocksDB
-  const dbKey = `balance:${wallet.toLowerCase()}:${token.toLowerCase()}`;
-  await dbPut(dbKey, newBalance);
+  const proof = await tree.createProof(key, sumRoot);
+  if (!proof.membership) return {};
+
+  const { hash, sum } = splitSumNode(sumRoot);
+  return {
+    sumRoot: normalize(hash),
+    total: sum.toString(),
+    sumSiblings: proof.sidenodes.map((node) => {
+      const sibling = splitSumNode(node);
+      return { hash: normalize(sibling.hash), sum: sibling.sum.toString() };
+    }),
+  };
 };
 
-// Get merkle proof for balance
-export const getProof = async (wallet: string, token: string): Promise<BalanceProof> => {
-  const userSecret = await getBalanceSecret(wallet);
-  if (!userSecret) {
+// Balance secret the wallet's leaves are keyed with under root. A rotation moves all of a wallet's
+// leaves to the new secret's keys in one transition, so under a root committed before it only a retired
+// secret finds them. The live root, and roots where the wallet has no leaf, use the current secret.
+export const getSecretForRoot = async (wallet: string, root?: string): Promise<BalanceSecretInfo> => {
+  const current = await getBalanceSecretInfo(wallet);
+  if (!current) {
     throw new Error('User has not set balance secret');
   }
+  if (root === undefined) return current;
 
-  const key = generateKey(wallet, token, userSecret);
-  const proof = smt.createProof(key);
-  const balance = await getBalance(wallet, token);
-  const value = toHexBalance(balance);
+  const retired = await getRetiredSecrets(wallet);
+  if (retired.length === 0) return current;
+
+  const tokens = await getWalletTokens(wallet);
+  for (const candidate of [current, ...retired]) {
+    for (const token of tokens) {
+      const proof = await smt.createProof(generateKey(wallet, token, candidate.secret), toSmtRoot(root));
+      if (proof.membership) return candidate;
+    }
+  }
+  return current;
+};
+
+// Get merkle proof for balance, against the current root or an earlier one (e.g. a committed root).
+// The value is read from the proven leaf, so it is the balance as of that root. Sum fields are
+// included against the live sum root, or for an earlier root when its liabilities are given.
+export const getProof = async (
+  wallet: string,
+  token: string,
+  root?: string,
+  liabilities?: TokenLiabilities
+): Promise<BalanceProof> => {
+  const { secret } = await getSecretForRoot(wallet, root);
+  const key = generateKey(wallet, token, secret);
+  // Both roots are read before any await so they describe the same committed transition
+  const sumRoot = sumRootFor(token, root, liabilities);
+  const proof = await smt.createProof(key, root === undefined ? smt.root : toSmtRoot(root));
+  const value = toHexBalance(proof.membership ? fromHexBalance(proof.entry[1]) : 0n);
 
   return {
     root: normalize(String(proof.root)),
     siblings: proof.sidenodes.map(s => normalize(String(s))),
     key: key,
     value: value,
+    ...(proof.membership ? await getSumProof(key, token, sumRoot) : {}),
+  };
+};
+
+// Inclusion proof of the wallet's balance under root, or a non-inclusion proof if it has no leaf there
+// (e.g. a deposit that was never credited)
+export const getAccountProof = async (
+  wallet: string,
+  token: string,
+  root?: string,
+  liabilities?: TokenLiabilities
+): Promise<AccountProof> => {
+  const { secret, version, generation } = await getSecretForRoot(wallet, root);
+  const key = generateKey(wallet, token, secret);
+  const derivation = { secretVersion: version, secretGeneration: generation };
+  const sumRoot = sumRootFor(token, root, liabilities);
+  const proof = await smt.createProof(key, root === undefined ? smt.root : toSmtRoot(root));
+  const siblings = proof.sidenodes.map(s => normalize(String(s)));
+
+  if (proof.membership) {
+    return {
+      type: 'inclusion',
+      proof: {
+        root: normalize(proof.root),
+        siblings,
+        key,
+        value: normalize(proof.entry[1]),
+        ...(await getSumProof(key, token, sumRoot)),
+      },
+      ...derivation,
+    };
+  }
+
+  return {
+    type: 'non-inclusion',
+    proof: {
+      root: normalize(proof.root),
+      siblings,
+      key,
+      matchingEntry: proof.matchingEntry
+        ? { key: normalize(proof.matchingEntry[0]), value: normalize(proof.matchingEntry[1]) }
+        : undefined,
+    },
+    ...derivation,
   };
 };
 
@@ -198,34 +417,55 @@ export const getRoot = (): string => {
   return String(smt.root);
 };
 
-// Verify a proof
-export const verifyProof = (proof: BalanceProof): boolean => {
-  const smtProof = smt.createProof(proof.key);
-  return normalize(String(smtProof.root)) === proof.root;
-};
+export const getBalanceTree = (): PersistentSMT => smt;
 
-export class BalanceService {
-  async getBalance(wallet: string, token: string): Promise<string> {
-    return getBalance(wallet, token);
+// Leaves the balance tree should hold according to the balance rows. Rows of wallets without a
+// secret have no leaf; a lost secret row shows up as a live leaf no record explains.
+export const getRecordLeaves = async (): Promise<RecordLeaf[]> => {
+  const entries = await dbGetAll('balance:');
+  const leaves: RecordLeaf[] = [];
+  for (const entry of entries) {
+    const [, wallet, token] = entry.key.split(':');
+    const userSecret = await getBalanceSecret(wallet);
+    if (!userSecret) continue;
+    leaves.push({ key: generateKey(wallet, token, userSecret), value: toHexBalance(BigInt(entry.value)), record: entry.key });
   }
+  return leaves;
+};
 
-  async setBalance(wallet: string, token: string, balance: string): Promise<void> {
-    await setBalance(wallet, token, balance);
-  }
+// Sum root and total liabilities of every token, as of the current root
+export const getLiabilities = (): TokenLiabilities[] => {
+  return [...sumTrees].map(([token, tree]) => {
+    const { hash, sum } = splitSumNode(tree.root);
+    return { token, sumRoot: hash, total: sum.toString() };
+  });
+};
+
+// Verify a proof the way the contract does, without consulting the tree; sum fields, if present,
+// must also show the leaf counted in total
+export const verifyProof = async (proof: BalanceProof): Promise<boolean> => {
+  const toHex = (hex: string): `0x${string}` => `0x${normalize(hex)}`;
+  const included = verifyInclusion(toHex(proof.root), toHex(proof.key), toHex(proof.value), proof.siblings.map(toHex));
+  if (!included || proof.sumRoot === undefined) return included;
 
-  async updateBalance(wallet: string, token: string, newBalance: string): Promise<void> {
-    await updateBalance(wallet, token, newBalance);
+  const sumSiblings = (proof.sumSiblings ?? []).map(s => ({ hash: toHex(s.hash), sum: BigInt(s.sum) }));
+  return verifySumInclusion(toHex(proof.sumRoot), BigInt(proof.total ?? '0'), toHex(proof.key), toHex(proof.value), sumSiblings);
+};
+
+export class BalanceService {
+  async getBalance(wallet: string, token: string, tx?: StateTransaction): Promise<bigint> {
+    return getBalance(wallet, token, tx);
   }
 
-  async getProof(wallet: string, token: string): Promise<BalanceProof> {
-    return getProof(wallet, token);
+  async getProof(wallet: string, token: string, root?: string, liabilities?: TokenLiabilities): Promise<BalanceProof> {
+    return getProof(wallet, token, root, liabilities);
   }
 
   getRoot(): string {
     return getRoot();
   }
 
-  verifyProof(proof: BalanceProof): boolean {
+  async verifyProof(proof: BalanceProof): Promise<boolean> {
     return verifyProof(proof);
   }
 }
@@ -8,15 +8,20 @@ const DB_PATH = env.DB_PATH;
 
 let db: ReturnType<typeof level> | null = null;
 
-export const initializeDatabase = async (): Promise<void> => {
+export type DbOperation =
+  | { type: 'put'; key: string; value: string }
+  | { type: 'del'; key: string };
+
+// readOnly opens an existing database without taking its write lock; every write then fails
+export const initializeDatabase = async ({ readOnly = false }: { readOnly?: boolean } = {}): Promise<void> => {
   // Ensure parent directory exists
   const parentDir = dirname(DB_PATH);
-  if (!existsSync(parentDir)) {
+  if (!readOnly && !existsSync(parentDir)) {
     mkdirSync(parentDir, { recursive: true });
   }
 
-  db = level(DB_PATH);
-  console.log(`Database initialized at ${DB_PATH}`);
+  db = level(DB_PATH, { readOnly });
+  console.log(`Database initialized at ${DB_PATH}${readOnly ? ' (read-only)' : ''}`);
 };
 
 export const closeDatabase = async (): Promise<void> => {
@@ -49,6 +54,13 @@ export const dbDel = async (key: string): Promise<void> => {
   await db.del(key);
 };
 
+// Apply all operations atomically: either every put/del is persisted or none is
+export const dbBatch = async (operations: DbOperation[]): Promise<void> => {
+  if (!db) throw new Error('Database not initialized');
+  if (operations.length === 0) return;
+  await db.batch(operations);
+};
+
 export const dbGetAll = async (prefix: string): Promise<Array<{ key: string; value: string }>> => {
   if (!db) throw new Error('Database not initialized');
 
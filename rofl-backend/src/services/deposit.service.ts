@@ -0,0 +1,230 @@
+import { Deposit, DepositOutcome, LegacyMarkerScan, PendingDeposit, ProcessedDeposit } from '../types/deposit.types';
+import { getBalance } from './balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from './journal.service';
+import { addTransaction } from './transaction.service';
+import { getBalanceSecret } from './secret.service';
+import { runStateTransition, StateTransaction } from './state.service';
+import { dbBatch, dbGet, dbGetAll, DbOperation } from './db.service';
+import { env } from '../config/env';
+
+// deposit:processed:<txHash>:<logIndex> -> ProcessedDeposit
+const PROCESSED_PREFIX = 'deposit:processed:';
+
+// deposit:pending:<user>:<txHash>:<logIndex> -> PendingDeposit
+const PENDING_PREFIX = 'deposit:pending:';
+
+const processedKey = (txHash: string, logIndex: number): string => {
+  return `${PROCESSED_PREFIX}${txHash.toLowerCase()}:${logIndex}`;
+};
+
+// Set once deposits credited before processed markers existed have been given markers
+const MARKERS_VERSION_KEY = 'meta:deposit-markers-version';
+const MARKERS_VERSION = '1';
+// meta:deposit-markers-scan -> LegacyMarkerScan while the scan that writes those markers is in progress
+const MARKERS_SCAN_KEY = 'meta:deposit-markers-scan';
+
+const pendingKey = (user: string, txHash: string, logIndex: number): string => {
+  return `${PENDING_PREFIX}${user.toLowerCase()}:${txHash.toLowerCase()}:${logIndex}`;
+};
+
+// Stage the credit for a deposit in tx; the depositor must have a balance secret
+const stageCredit = async (deposit: Deposit, tx: StateTransaction): Promise<void> => {
+  // Credit the raw on-chain amount; the ledger is kept in token base units
+  await postEntry(tx, {
+    type: 'deposit',
+    token: deposit.token,
+    postings: [
+      { account: SYSTEM_ACCOUNTS.chain, amount: -deposit.amount },
+      { account: deposit.user, amount: deposit.amount },
+    ],
+    reference: `${deposit.txHash.toLowerCase()}:${deposit.logIndex}`,
+  });
+
+  // Transaction history: contract has no tx secret so addTransaction would throw; skip for deposits
+  try {
+    await addTransaction(env.VOID_CONTRACT_ADDRESS, deposit.user, deposit.token, deposit.amount, tx);
+  } catch (txErr) {
+    console.warn('Deposit: could not add to tx history (contract has no tx secret):', txErr);
+  }
+
+  // Marker is committed with the credit, so a crash can never credit without recording it
+  const processed: ProcessedDeposit = {
+    user: deposit.user,
+    token: deposit.token,
+    amount: deposit.amount.toString(),
+    blockNumber: deposit.blockNumber,
+    creditedAt: Date.now(),
+  };
+  tx.put(processedKey(deposit.txHash, deposit.logIndex), JSON.stringify(processed));
+
+  console.log(`Deposit credited: ${deposit.user} +${deposit.amount} of ${deposit.token} (${deposit.txHash}:${deposit.logIndex})`);
+};
+
+// Credit a deposit exactly once across the webhook, backfill and indexer.
+// Deposits from wallets without a balance secret are queued and credited when the secret is set.
+export const creditDeposit = async (deposit: Deposit): Promise<DepositOutcome> => {
+  return runStateTransition(async (tx) => {
+    if ((await tx.get(processedKey(deposit.txHash, deposit.logIndex))) !== null) return 'duplicate';
+
+    // Until the marker scan has finished, a deposit without a marker may already be in a balance
+    if ((await tx.get(MARKERS_VERSION_KEY)) !== MARKERS_VERSION) {
+      throw new Error('Deposits are not credited until the deposit marker scan has finished');
+    }
+
+    // Checked inside the transition so it is ordered against creditPendingDeposits
+    if (!(await getBalanceSecret(deposit.user))) {
+      const pending: PendingDeposit = {
+        txHash: deposit.txHash,
+        logIndex: deposit.logIndex,
+        user: deposit.user,
+        token: deposit.token,
+        amount: deposit.amount.toString(),
+        blockNumber: deposit.blockNumber,
+        receivedAt: Date.now(),
+      };
+      tx.put(pendingKey(deposit.user, deposit.txHash, deposit.logIndex), JSON.stringify(pending));
+      console.log(`Deposit queued until ${deposit.user} sets a balance secret (${deposit.txHash}:${deposit.logIndex})`);
+      return 'pending';
+    }
+
+    await stageCredit(deposit, tx);
+    return 'credited';
+  });
+};
+
+export const hasLegacyDepositMarkers = async (): Promise<boolean> => {
+  return (await dbGet(MARKERS_VERSION_KEY)) === MARKERS_VERSION;
+};
+
+export const getLegacyMarkerScan = async (): Promise<LegacyMarkerScan | null> => {
+  const stored = await dbGet(MARKERS_SCAN_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+// Record deposits that balances already include as processed, without crediting them, so the backfill
+// and indexer skip them. Written with the scan's progress, so a restart resumes after them; the last
+// batch (scan null) writes the version marker instead, so the migration runs once.
+export const markLegacyDeposits = async (deposits: Deposit[], scan: LegacyMarkerScan | null): Promise<number> => {
+  const operations: DbOperation[] = [];
+  for (const deposit of deposits) {
+    const key = processedKey(deposit.txHash, deposit.logIndex);
+    if ((await dbGet(key)) !== null) continue;
+
+    const processed: ProcessedDeposit = {
+      user: deposit.user,
+      token: deposit.token,
+      amount: deposit.amount.toString(),
+      blockNumber: deposit.blockNumber,
+      creditedAt: Date.now(),
+      legacy: true,
+    };
+    operations.push({ type: 'put', key, value: JSON.stringify(processed) });
+  }
+
+  const marked = operations.length;
+  if (scan) {
+    operations.push({ type: 'put', key: MARKERS_SCAN_KEY, value: JSON.stringify(scan) });
+  } else {
+    operations.push({ type: 'put', key: MARKERS_VERSION_KEY, value: MARKERS_VERSION });
+    operations.push({ type: 'del', key: MARKERS_SCAN_KEY });
+  }
+  await dbBatch(operations);
+  return marked;
+};
+
+// Deposits waiting for the wallet to set its balance secret
+export const getPendingDeposits = async (wallet: string): Promise<PendingDeposit[]> => {
+  const entries = await dbGetAll(`${PENDING_PREFIX}${wallet.toLowerCase()}:`);
+  return entries.map(entry => JSON.parse(entry.value));
+};
+
+// Every queued deposit across wallets; the contract holds these funds but the ledger does not yet
+export const getAllPendingDeposits = async (): Promise<PendingDeposit[]> => {
+  const entries = await dbGetAll(PENDING_PREFIX);
+  return entries.map(entry => JSON.parse(entry.value));
+};
+
+// Credit every queued deposit for a wallet that now has a balance secret; returns how many were credited
+export const creditPendingDeposits = async (wallet: string): Promise<number> => {
+  const entries = await dbGetAll(`${PENDING_PREFIX}${wallet.toLowerCase()}:`);
+  if (entries.length === 0) return 0;
+
+  return runStateTransition(async (tx) => {
+    if (!(await getBalanceSecret(wallet))) return 0;
+
+    let credited = 0;
+    for (const entry of entries) {
+      const pending: PendingDeposit = JSON.parse(entry.value);
+      tx.del(entry.key);
+
+      // Also credited through another source (e.g. the backfill) while it was queued
+      if ((await tx.get(processedKey(pending.txHash, pending.logIndex))) !== null) continue;
+
+      await stageCredit({ ...pending, amount: BigInt(pending.amount) }, tx);
+      credited++;
+    }
+    return credited;
+  });
+};
+
+// Drop queued deposits from blocks above blockNumber after a reorg; replaying the chain queues them again
+export const dropPendingDepositsAfterBlock = async (blockNumber: number): Promise<void> => {
+  const entries = await dbGetAll(PENDING_PREFIX);
+  const orphaned = entries.filter(entry => {
+    const pending: PendingDeposit = JSON.parse(entry.value);
+    return pending.blockNumber !== undefined && pending.blockNumber > blockNumber;
+  });
+
+  await runStateTransition(async (tx) => {
+    for (const entry of orphaned) tx.del(entry.key);
+  });
+};
+
+// Deposits credited from blocks above blockNumber, as [txHash, logIndex] pairs
+export const getDepositsAfterBlock = async (blockNumber: number): Promise<Array<[string, number]>> => {
+  const entries = await dbGetAll(PROCESSED_PREFIX);
+  return entries
+    .filter(entry => {
+      const processed: ProcessedDeposit = JSON.parse(entry.value);
+      return processed.blockNumber !== undefined && processed.blockNumber > blockNumber;
+    })
+    .map(entry => {
+      const [txHash, logIndex] = entry.key.slice(PROCESSED_PREFIX.length).split(':');
+      return [txHash, parseInt(logIndex, 10)];
+    });
+};
+
+// Undo a credited deposit whose block was reorged out. If the funds were already spent
+// the balance is floored at zero and the shortfall is logged for the operator.
+export const revertDeposit = async (txHash: string, logIndex: number): Promise<void> => {
+  const key = processedKey(txHash, logIndex);
+
+  await runStateTransition(async (tx) => {
+    const stored = await tx.get(key);
+    if (stored === null) return;
+
+    const processed: ProcessedDeposit = JSON.parse(stored);
+    const amount = BigInt(processed.amount);
+    const currentBalance = await getBalance(processed.user, processed.token, tx);
+    const debit = currentBalance < amount ? currentBalance : amount;
+
+    if (debit > 0n) {
+      await postEntry(tx, {
+        type: 'deposit-reversal',
+        token: processed.token,
+        postings: [
+          { account: processed.user, amount: -debit },
+          { account: SYSTEM_ACCOUNTS.chain, amount: debit },
+        ],
+        reference: `${txHash.toLowerCase()}:${logIndex}`,
+      });
+    }
+    tx.del(key);
+
+    if (debit < amount) {
+      console.error(`Reverted deposit ${txHash}:${logIndex} short by ${amount - debit} for ${processed.user}`);
+    } else {
+      console.warn(`Reverted deposit ${txHash}:${logIndex} for ${processed.user}`);
+    }
+  });
+};
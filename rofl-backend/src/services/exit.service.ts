@@ -0,0 +1,67 @@
+import { ExitKit, ExitKitEntry } from '../types/exit.types';
+import { getProof, getRoot, getSecretForRoot, getWalletTokens } from './balance.service';
+import { getLastCommittedRoot } from './stateRoot.service';
+import { getTokenDecimals } from './token.service';
+import { fromBaseUnits } from '../utils/amount.util';
+import { env } from '../config/env';
+
+// Bump when the kit layout changes; importers reject versions they do not know
+export const EXIT_KIT_VERSION = 4;
+
+const toBytes32 = (hex: string): string => `0x${hex.replace(/^0x/, '').padStart(64, '0')}`;
+
+// Build the exit kit for a wallet against the last committed root (or the live root if none is committed).
+// The nonce is the balance secret the wallet's leaves have under that root, which is a retired one
+// until a root committed after the wallet's last rotation is published. emergencyWithdrawWithInclusive
+// needs it to recompute each leaf key from the caller, so it is only exported when a committed root holds
+// leaves keyed with it: kits against the live root, or with no leaf to prove, carry no secret.
+export const buildExitKit = async (wallet: string): Promise<ExitKit> => {
+  const commitment = await getLastCommittedRoot();
+  const stateRoot = commitment ? commitment.stateRoot : toBytes32(getRoot());
+  const secret = await getSecretForRoot(wallet, stateRoot);
+
+  const entries = await Promise.all((await getWalletTokens(wallet)).map(async (token): Promise<ExitKitEntry | null> => {
+    const liabilities = commitment?.liabilities?.find(entry => entry.token === token.toLowerCase());
+    const proof = await getProof(wallet, token, stateRoot, liabilities);
+    const decimals = await getTokenDecimals(token);
+    const rawBalance = BigInt('0x' + proof.value);
+
+    // Nothing to exit with, and tokens first deposited after the root have no leaf to prove
+    if (rawBalance === 0n) return null;
+
+    return {
+      token,
+      decimals,
+      balance: fromBaseUnits(rawBalance, decimals),
+      rawBalance: rawBalance.toString(),
+      key: toBytes32(proof.key),
+      value: toBytes32(proof.value),
+      siblings: proof.siblings.map(toBytes32),
+      sumSiblings: proof.sumSiblings?.map(sibling => ({ hash: toBytes32(sibling.hash), sum: sibling.sum })),
+    };
+  }));
+  const tokens = entries.filter((entry): entry is ExitKitEntry => entry !== null);
+  const nonce = commitment && tokens.length > 0 ? secret.secret : null;
+
+  return {
+    format: 'void-exit-kit',
+    version: EXIT_KIT_VERSION,
+    chainId: env.CHAIN_ID,
+    contract: env.VOID_CONTRACT_ADDRESS,
+    wallet: wallet.toLowerCase(),
+    createdAt: Date.now(),
+    root: {
+      stateRoot,
+      term: commitment?.term ?? null,
+      committedAt: commitment?.committedAt ?? null,
+      txHash: commitment?.txHash ?? null,
+      signature: commitment?.signature ?? null,
+      liabilitiesRoot: commitment?.liabilitiesRoot ?? null,
+      liabilities: (commitment?.liabilities ?? []).map(entry => ({ ...entry, sumRoot: toBytes32(entry.sumRoot) })),
+    },
+    nonce,
+    secretVersion: secret.version,
+    secretGeneration: secret.generation,
+    tokens,
+  };
+};
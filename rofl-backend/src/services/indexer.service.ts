@@ -0,0 +1,288 @@
+import { createPublicClient, http, parseAbi } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { env } from '../config/env';
+import { dbGet, dbGetAll, dbBatch, DbOperation } from './db.service';
+import { creditDeposit, dropPendingDepositsAfterBlock, getDepositsAfterBlock, hasLegacyDepositMarkers, revertDeposit } from './deposit.service';
+import { getBalance } from './balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from './journal.service';
+import { runStateTransition } from './state.service';
+import { AppliedExit, BlockRef, IndexedEvent, IndexerCursor, VoidEventName } from '../types/indexer.types';
+
+// Any JSON-RPC endpoint works (hosted provider, own node or a local anvil)
+const client = createPublicClient({
+  chain: baseSepolia,
+  transport: http(env.INDEXER_RPC_URL || undefined),
+});
+
+const VOID_EVENTS_ABI = parseAbi([
+  'event Deposited(address indexed user, uint256 amount, address tokenAddress)',
+  'event EmergencyWithdraw(address indexed user, uint256 amount, address tokenAddress)',
+  'event WithdrawNonInclusive(address indexed user, uint256 amount, address tokenAddress)',
+  'event TeeRegistered(address indexed teeAddress, uint256 timestamp)',
+  'event PingReceived(address indexed teeAddress, uint256 timestamp)',
+  'event TeeMarkedDead(uint256 timestamp)',
+  'event TeeRevived(address indexed teeAddress, uint256 timestamp)',
+]);
+
+const CURSOR_KEY = 'indexer:cursor';
+// indexer:event:<block>:<logIndex> -> IndexedEvent, zero-padded so keys sort in chain order
+const EVENT_PREFIX = 'indexer:event:';
+// exit:processed:<txHash>:<logIndex> -> AppliedExit
+const EXIT_PREFIX = 'exit:processed:';
+
+// How many processed ranges are remembered when looking for the fork point of a reorg
+const MAX_CHECKPOINTS = 64;
+
+// Cursor before any block has been processed
+const GENESIS_PARENT: BlockRef = { number: -1, hash: '' };
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const eventKey = (blockNumber: number, logIndex: number): string => {
+  return `${EVENT_PREFIX}${String(blockNumber).padStart(12, '0')}:${String(logIndex).padStart(6, '0')}`;
+};
+
+const exitKey = (txHash: string, logIndex: number): string => {
+  return `${EXIT_PREFIX}${txHash.toLowerCase()}:${logIndex}`;
+};
+
+const getBlockRef = async (blockNumber: number): Promise<BlockRef> => {
+  const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+  return { number: Number(block.number), hash: block.hash };
+};
+
+const isCanonical = async (ref: BlockRef): Promise<boolean> => {
+  if (ref.number < 0) return true;
+  return (await getBlockRef(ref.number)).hash === ref.hash;
+};
+
+// Stored cursor, or one positioned at INDEXER_START_BLOCK (default: the current confirmed head)
+const loadCursor = async (): Promise<IndexerCursor> => {
+  const stored = await dbGet(CURSOR_KEY);
+  if (stored) return JSON.parse(stored);
+
+  let head = GENESIS_PARENT;
+  if (env.INDEXER_START_BLOCK) {
+    const startBlock = parseInt(env.INDEXER_START_BLOCK, 10);
+    if (startBlock > 0) head = await getBlockRef(startBlock - 1);
+  } else {
+    const latest = Number(await client.getBlockNumber());
+    head = await getBlockRef(Math.max(latest - env.INDEXER_CONFIRMATIONS, 0));
+  }
+
+  return { head, checkpoints: [head] };
+};
+
+// Debit the ledger for an emergency exit so the same funds cannot also be withdrawn through the TEE
+const applyEmergencyWithdraw = async (event: IndexedEvent): Promise<void> => {
+  const key = exitKey(event.txHash, event.logIndex);
+  const { user, tokenAddress } = event.args;
+  const amount = BigInt(event.args.amount);
+
+  await runStateTransition(async (tx) => {
+    if ((await tx.get(key)) !== null) return;
+
+    const balance = await getBalance(user, tokenAddress, tx);
+    const debit = balance < amount ? balance : amount;
+    if (debit > 0n) {
+      await postEntry(tx, {
+        type: 'exit',
+        token: tokenAddress,
+        postings: [
+          { account: user, amount: -debit },
+          { account: SYSTEM_ACCOUNTS.chain, amount: debit },
+        ],
+        reference: `${event.txHash.toLowerCase()}:${event.logIndex}`,
+      });
+    }
+
+    const applied: AppliedExit = { ...event, debited: debit.toString() };
+    tx.put(key, JSON.stringify(applied));
+  });
+};
+
+const revertEmergencyWithdraw = async (key: string): Promise<void> => {
+  await runStateTransition(async (tx) => {
+    const stored = await tx.get(key);
+    if (stored === null) return;
+
+    const applied: AppliedExit = JSON.parse(stored);
+    const debited = BigInt(applied.debited);
+    if (debited > 0n) {
+      await postEntry(tx, {
+        type: 'exit-reversal',
+        token: applied.args.tokenAddress,
+        postings: [
+          { account: SYSTEM_ACCOUNTS.chain, amount: -debited },
+          { account: applied.args.user, amount: debited },
+        ],
+        reference: `${applied.txHash.toLowerCase()}:${applied.logIndex}`,
+      });
+    }
+    tx.del(key);
+  });
+};
+
+const applyEvent = async (event: IndexedEvent): Promise<void> => {
+  switch (event.name) {
+    case 'Deposited': {
+      const { user, tokenAddress, amount } = event.args;
+      await creditDeposit({
+        txHash: event.txHash,
+        logIndex: event.logIndex,
+        user,
+        token: tokenAddress,
+        amount: BigInt(amount),
+        blockNumber: event.blockNumber,
+      });
+      return;
+    }
+    case 'EmergencyWithdraw':
+      await applyEmergencyWithdraw(event);
+      return;
+    default:
+      console.log(`Indexer: ${event.name} at block ${event.blockNumber}`);
+  }
+};
+
+// Index one block range and advance the cursor past it. Ledger effects are idempotent,
+// so a crash before the cursor is written only causes the range to be replayed.
+const processRange = async (cursor: IndexerCursor, fromBlock: number, toBlock: number): Promise<IndexerCursor> => {
+  const logs = await client.getLogs({
+    address: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+    events: VOID_EVENTS_ABI,
+    fromBlock: BigInt(fromBlock),
+    toBlock: BigInt(toBlock),
+  });
+  const toRef = await getBlockRef(toBlock);
+
+  const operations: DbOperation[] = [];
+  for (const log of logs) {
+    const event: IndexedEvent = {
+      name: log.eventName as VoidEventName,
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      args: Object.fromEntries(Object.entries(log.args).map(([name, value]) => [name, String(value)])),
+    };
+
+    await applyEvent(event);
+    operations.push({ type: 'put', key: eventKey(event.blockNumber, event.logIndex), value: JSON.stringify(event) });
+  }
+
+  const next: IndexerCursor = {
+    head: toRef,
+    checkpoints: [...cursor.checkpoints, toRef].slice(-MAX_CHECKPOINTS),
+  };
+  operations.push({ type: 'put', key: CURSOR_KEY, value: JSON.stringify(next) });
+  await dbBatch(operations);
+
+  return next;
+};
+
+// Undo everything indexed above the fork point and move the cursor back to it
+const rewind = async (cursor: IndexerCursor, fork: BlockRef): Promise<IndexerCursor> => {
+  for (const [txHash, logIndex] of await getDepositsAfterBlock(fork.number)) {
+    await revertDeposit(txHash, logIndex);
+  }
+  await dropPendingDepositsAfterBlock(fork.number);
+
+  for (const entry of await dbGetAll(EXIT_PREFIX)) {
+    const applied: AppliedExit = JSON.parse(entry.value);
+    if (applied.blockNumber > fork.number) {
+      await revertEmergencyWithdraw(entry.key);
+    }
+  }
+
+  const operations: DbOperation[] = [];
+  for (const entry of await dbGetAll(EVENT_PREFIX)) {
+    const event: IndexedEvent = JSON.parse(entry.value);
+    if (event.blockNumber > fork.number) {
+      operations.push({ type: 'del', key: entry.key });
+    }
+  }
+
+  const next: IndexerCursor = {
+    head: fork,
+    checkpoints: cursor.checkpoints.filter(ref => ref.number <= fork.number),
+  };
+  operations.push({ type: 'put', key: CURSOR_KEY, value: JSON.stringify(next) });
+  await dbBatch(operations);
+
+  return next;
+};
+
+const poll = async (): Promise<void> => {
+  // Deposits without markers may already be in balances until the marker scan finishes; wait for it
+  if (!(await hasLegacyDepositMarkers())) return;
+
+  let cursor = await loadCursor();
+
+  // The last processed block was replaced: find the newest checkpoint still on chain and replay from there
+  if (!(await isCanonical(cursor.head))) {
+    let fork: BlockRef | undefined;
+    for (const ref of [...cursor.checkpoints].reverse()) {
+      if (await isCanonical(ref)) {
+        fork = ref;
+        break;
+      }
+    }
+
+    if (!fork) {
+      throw new Error(`Reorg below the last ${MAX_CHECKPOINTS} checkpoints at block ${cursor.head.number}; manual resync required`);
+    }
+
+    console.warn(`Indexer: reorg detected, rewinding from block ${cursor.head.number} to ${fork.number}`);
+    cursor = await rewind(cursor, fork);
+  }
+
+  // Only blocks with enough confirmations are indexed
+  const latest = Number(await client.getBlockNumber());
+  const confirmedHead = latest - env.INDEXER_CONFIRMATIONS;
+
+  while (running && cursor.head.number < confirmedHead) {
+    const fromBlock = cursor.head.number + 1;
+    const toBlock = Math.min(confirmedHead, fromBlock + env.INDEXER_BLOCK_RANGE - 1);
+    cursor = await processRange(cursor, fromBlock, toBlock);
+  }
+};
+
+const tick = async (): Promise<void> => {
+  try {
+    await poll();
+  } catch (error) {
+    console.error('Indexer poll failed:', error);
+  }
+  if (running) timer = setTimeout(tick, env.INDEXER_POLL_INTERVAL_MS);
+};
+
+// Poll the Void contract for events until stopIndexer is called
+export const startIndexer = (): void => {
+  if (!env.INDEXER_ENABLED) {
+    console.log('Chain indexer disabled');
+    return;
+  }
+
+  running = true;
+  console.log(`Chain indexer started (${env.INDEXER_CONFIRMATIONS} confirmations)`);
+  void tick();
+};
+
+export const isIndexerRunning = (): boolean => running;
+
+// Poll now instead of at the next interval, e.g. when a webhook reports a new event.
+// A poll in progress is left alone; it reschedules itself when it finishes.
+export const wakeIndexer = (): void => {
+  if (!running || !timer) return;
+  clearTimeout(timer);
+  timer = null;
+  void tick();
+};
+
+export const stopIndexer = (): void => {
+  running = false;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
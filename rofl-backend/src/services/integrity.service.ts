@@ -0,0 +1,163 @@
+import { BaseError } from 'viem';
+import { CommittedRootAudit, IntegrityReport, LeafDivergence, RecordLeaf, TreeAudit } from '../types/integrity.types';
+import { StateRootCommitment } from '../types/stateRoot.types';
+import { dbGet, dbPut } from './db.service';
+import { runStateTransition } from './state.service';
+import { getBalanceTree, getRecordLeaves } from './balance.service';
+import { getTxRecordLeaves, getTxTree } from './transaction.service';
+import { getCommittedRoots } from './stateRoot.service';
+import { getCommittedStateRoot } from './rofl.service';
+import { Node, PersistentSMT } from '../utils/smt.util';
+
+// integrity:last -> IntegrityReport
+const LAST_KEY = 'integrity:last';
+
+let checking: Promise<IntegrityReport> | null = null;
+
+interface Snapshot {
+  balanceRoot: Node;
+  txRoot: Node;
+  balanceLeaves: RecordLeaf[];
+  txLeaves: RecordLeaf[];
+  commitments: StateRootCommitment[];
+}
+
+const toNode = (root: string): Node => {
+  const hex = root.replace(/^0x/, '').toLowerCase();
+  return /^0+$/.test(hex) ? '0' : hex.padStart(64, '0');
+};
+
+// Roots and records are read inside a transition so they describe the same state; the trees are
+// walked afterwards, which is safe because nodes under a root never change
+const readSnapshot = async (): Promise<Snapshot> => {
+  return runStateTransition(async () => {
+    const balanceRoot = getBalanceTree().root;
+    const txRoot = getTxTree().root;
+    const [balanceLeaves, txLeaves, commitments] = await Promise.all([
+      getRecordLeaves(),
+      getTxRecordLeaves(),
+      getCommittedRoots(),
+    ]);
+    return { balanceRoot, txRoot, balanceLeaves, txLeaves, commitments };
+  });
+};
+
+// Rebuild a tree from its records and compare it leaf by leaf with the live tree under liveRoot
+const auditTree = async (
+  name: TreeAudit['tree'],
+  tree: PersistentSMT,
+  liveRoot: Node,
+  records: RecordLeaf[]
+): Promise<TreeAudit> => {
+  const rebuiltRoot = await tree.computeRoot(records.map(leaf => [leaf.key, leaf.value]));
+  const { entries, invalidNodes } = await tree.audit(liveRoot);
+
+  const expected = new Map(records.map(leaf => [leaf.key, leaf]));
+  const actual = new Map(entries.map(([key, value]) => [key, value]));
+
+  const divergences: LeafDivergence[] = [];
+  for (const key of new Set([...expected.keys(), ...actual.keys()])) {
+    const record = expected.get(key);
+    const value = actual.get(key);
+    if (record?.value !== value) {
+      divergences.push({ key, expected: record?.value ?? null, actual: value ?? null, record: record?.record });
+    }
+  }
+  divergences.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  return {
+    tree: name,
+    liveRoot,
+    rebuiltRoot,
+    matches: rebuiltRoot === liveRoot && divergences.length === 0 && invalidNodes.length === 0,
+    leafCount: records.length,
+    invalidNodes,
+    divergenceCount: divergences.length,
+    firstDivergence: divergences[0] ?? null,
+  };
+};
+
+// Walk both trees under every committed root; subtrees shared between terms are checked once
+const auditCommittedRoots = async (commitments: StateRootCommitment[]): Promise<CommittedRootAudit[]> => {
+  const balanceSeen = new Set<Node>();
+  const txSeen = new Set<Node>();
+  const audits: CommittedRootAudit[] = [];
+
+  for (const commitment of commitments) {
+    const balance = await getBalanceTree().audit(toNode(commitment.stateRoot), balanceSeen);
+    const tx = await getTxTree().audit(toNode(commitment.txRoot), txSeen);
+    const invalidNodes = [...balance.invalidNodes, ...tx.invalidNodes];
+    audits.push({
+      term: commitment.term,
+      stateRoot: commitment.stateRoot,
+      txRoot: commitment.txRoot,
+      intact: invalidNodes.length === 0,
+      invalidNodes,
+    });
+  }
+  return audits;
+};
+
+const check = async (persist: boolean): Promise<IntegrityReport> => {
+  const snapshot = await readSnapshot();
+  const balance = await auditTree('balance', getBalanceTree(), snapshot.balanceRoot, snapshot.balanceLeaves);
+  const transactions = await auditTree('transaction', getTxTree(), snapshot.txRoot, snapshot.txLeaves);
+  const committedRoots = await auditCommittedRoots(snapshot.commitments);
+
+  let onChain: IntegrityReport['onChain'] = null;
+  let onChainError: string | undefined;
+  try {
+    const root = await getCommittedStateRoot();
+    const last = snapshot.commitments[snapshot.commitments.length - 1];
+    if (root.term > 0 || last) {
+      onChain = {
+        term: root.term,
+        stateRoot: root.stateRoot,
+        matchesLocal: !!last && last.term === root.term && last.stateRoot === root.stateRoot && last.signature.toLowerCase() === root.signature.toLowerCase(),
+      };
+    }
+  } catch (error) {
+    onChainError = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+  }
+
+  const report: IntegrityReport = {
+    generatedAt: Date.now(),
+    ok: balance.matches && transactions.matches && committedRoots.every(root => root.intact) && (onChain?.matchesLocal ?? true),
+    balance,
+    transactions,
+    committedRoots,
+    onChain,
+    onChainError,
+  };
+  if (persist) await dbPut(LAST_KEY, JSON.stringify(report));
+
+  for (const audit of [balance, transactions]) {
+    if (!audit.matches) {
+      console.error(`Integrity: ${audit.tree} tree diverges from its records (${audit.divergenceCount} keys, ${audit.invalidNodes.length} invalid nodes)`);
+    }
+  }
+  for (const root of committedRoots) {
+    if (!root.intact) console.error(`Integrity: committed root of term ${root.term} has ${root.invalidNodes.length} invalid nodes`);
+  }
+  if (onChain && !onChain.matchesLocal) {
+    console.error(`Integrity: on-chain root of term ${onChain.term} does not match the last recorded commitment`);
+  }
+
+  return report;
+};
+
+// Rebuild both SMTs from the persisted records and compare them with the live and committed roots;
+// concurrent callers share the check in progress. A read-only check does not store its report.
+export const runIntegrityCheck = async ({ readOnly = false }: { readOnly?: boolean } = {}): Promise<IntegrityReport> => {
+  if (!checking) {
+    checking = check(!readOnly).finally(() => {
+      checking = null;
+    });
+  }
+  return checking;
+};
+
+export const getLastIntegrityReport = async (): Promise<IntegrityReport | null> => {
+  const stored = await dbGet(LAST_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import { BalanceExplanation, JournalEntry, JournalLine, NewJournalEntry } from '../types/journal.types';
+import { dbGet, dbGetAll } from './db.service';
+import { getBalance, getLedgerBalances, updateBalance } from './balance.service';
+import { runStateTransition, StateTransaction } from './state.service';
+
+// Accounts that are not wallets. Wallet balances are liabilities; these track where value came from or went.
+export const SYSTEM_ACCOUNTS = {
+  chain: 'system:chain', // outside the ledger: deposits come from it, payouts and exits go to it
+  withdrawals: 'system:withdrawals', // debited withdrawals not yet paid out or refunded
+  unclaimed: 'system:unclaimed', // transfers to wallets that cannot hold a balance yet
+  fees: 'system:fees',
+  opening: 'system:opening', // counterpart of balances that predate the journal
+} as const;
+
+// journal:seq -> last assigned sequence number
+const SEQ_KEY = 'journal:seq';
+// journal:entry:<seq> -> JournalEntry
+const ENTRY_PREFIX = 'journal:entry:';
+// journal:line:<account>:<token>:<seq> -> JournalLine
+const LINE_PREFIX = 'journal:line:';
+// journal:balance:<account>:<token> -> sum of the account's postings
+const BALANCE_PREFIX = 'journal:balance:';
+
+const VERSION_KEY = 'meta:journal-version';
+const VERSION = '1';
+
+const padSeq = (seq: number): string => seq.toString().padStart(12, '0');
+
+const isSystemAccount = (account: string): boolean => account.startsWith('system:');
+
+const accountKey = (account: string, token: string): string => `${account.toLowerCase()}:${token.toLowerCase()}`;
+
+// Append an entry in tx and apply it to the balances it touches. Wallet balances and SMT leaves only
+// change through here, so every balance is the sum of its account's journal lines.
+export const postEntry = async (tx: StateTransaction, entry: NewJournalEntry): Promise<JournalEntry> => {
+  const total = entry.postings.reduce((sum, posting) => sum + posting.amount, 0n);
+  if (total !== 0n) {
+    throw new Error(`Journal entry ${entry.type} does not balance (off by ${total})`);
+  }
+
+  const seq = Number((await tx.get(SEQ_KEY)) ?? '0') + 1;
+  const journalEntry: JournalEntry = {
+    id: randomUUID(),
+    seq,
+    type: entry.type,
+    token: entry.token.toLowerCase(),
+    postings: entry.postings.map(posting => ({ account: posting.account.toLowerCase(), amount: posting.amount.toString() })),
+    reference: entry.reference,
+    createdAt: Date.now(),
+  };
+
+  for (const posting of entry.postings) {
+    const key = accountKey(posting.account, entry.token);
+    const balance = BigInt((await tx.get(`${BALANCE_PREFIX}${key}`)) ?? '0') + posting.amount;
+
+    if (!isSystemAccount(posting.account)) {
+      if (balance < 0n) {
+        throw new Error(`Journal entry ${entry.type} overdraws ${posting.account}`);
+      }
+      await updateBalance(posting.account, entry.token, balance, tx);
+    }
+
+    const line: JournalLine = {
+      entryId: journalEntry.id,
+      seq,
+      type: entry.type,
+      amount: posting.amount.toString(),
+      balance: balance.toString(),
+      reference: entry.reference,
+      createdAt: journalEntry.createdAt,
+    };
+    tx.put(`${BALANCE_PREFIX}${key}`, balance.toString());
+    tx.put(`${LINE_PREFIX}${key}:${padSeq(seq)}`, JSON.stringify(line));
+  }
+
+  tx.put(`${ENTRY_PREFIX}${padSeq(seq)}`, JSON.stringify(journalEntry));
+  tx.put(SEQ_KEY, String(seq));
+  return journalEntry;
+};
+
+// Lines of one account for one token, oldest first
+export const getAccountLines = async (account: string, token: string): Promise<JournalLine[]> => {
+  const entries = await dbGetAll(`${LINE_PREFIX}${accountKey(account, token)}:`);
+  return entries.map(entry => JSON.parse(entry.value));
+};
+
+// Every entry, oldest first
+export const getJournalEntries = async (): Promise<JournalEntry[]> => {
+  const entries = await dbGetAll(ENTRY_PREFIX);
+  return entries.map(entry => JSON.parse(entry.value));
+};
+
+// Ledgers from before the journal get one opening entry per balance, so their history starts from it.
+// Recorded without touching balances, which already hold these amounts.
+export const initializeJournal = async (): Promise<void> => {
+  if ((await dbGet(VERSION_KEY)) === VERSION) return;
+
+  const balances = (await getLedgerBalances()).filter(entry => BigInt(entry.balance) > 0n);
+
+  await runStateTransition(async (tx) => {
+    let seq = Number((await tx.get(SEQ_KEY)) ?? '0');
+    for (const { wallet, token, balance } of balances) {
+      seq++;
+      const createdAt = Date.now();
+      const entry: JournalEntry = {
+        id: randomUUID(),
+        seq,
+        type: 'opening',
+        token,
+        postings: [
+          { account: SYSTEM_ACCOUNTS.opening, amount: (-BigInt(balance)).toString() },
+          { account: wallet, amount: balance },
+        ],
+        createdAt,
+      };
+
+      for (const posting of entry.postings) {
+        const key = accountKey(posting.account, token);
+        const accountBalance = BigInt((await tx.get(`${BALANCE_PREFIX}${key}`)) ?? '0') + BigInt(posting.amount);
+        const line: JournalLine = { entryId: entry.id, seq, type: 'opening', amount: posting.amount, balance: accountBalance.toString(), createdAt };
+        tx.put(`${BALANCE_PREFIX}${key}`, accountBalance.toString());
+        tx.put(`${LINE_PREFIX}${key}:${padSeq(seq)}`, JSON.stringify(line));
+      }
+      tx.put(`${ENTRY_PREFIX}${padSeq(seq)}`, JSON.stringify(entry));
+    }
+
+    tx.put(SEQ_KEY, String(seq));
+    tx.put(VERSION_KEY, VERSION);
+  });
+
+  if (balances.length > 0) {
+    console.log(`Journal opened with ${balances.length} existing balances`);
+  }
+};
+
+// A wallet's balance explained entry by entry
+export const explainBalance = async (wallet: string, token: string): Promise<BalanceExplanation> => {
+  const [lines, ledger] = await Promise.all([getAccountLines(wallet, token), getBalance(wallet, token)]);
+  const balance = lines.reduce((sum, line) => sum + BigInt(line.amount), 0n);
+  return { balance, ledger, lines };
+};
@@ -0,0 +1,79 @@
+import { formatEther } from 'viem';
+import { getTeeStatus, sendPing, getRoflGasBalance } from './rofl.service';
+import { LivenessStatus } from '../types/liveness.types';
+import { env } from '../config/env';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const status: LivenessStatus = {
+  enabled: false,
+  isAlive: null,
+  lastCheckAt: null,
+  lastPingAt: null,
+  lastPingTxHash: null,
+  timeUntilTimeout: null,
+  pingTimeout: null,
+  gasBalance: null,
+  consecutiveFailures: 0,
+  lastError: null,
+};
+
+export const getLivenessStatus = (): LivenessStatus => ({ ...status });
+
+// Read the contract status and ping once LIVENESS_PING_AFTER_FRACTION of the timeout has passed,
+// leaving the rest of the window for retries
+const check = async (): Promise<void> => {
+  const tee = await getTeeStatus();
+  const now = Date.now();
+
+  status.lastCheckAt = now;
+  status.isAlive = tee.isAlive;
+  status.timeUntilTimeout = tee.timeUntilTimeout;
+  status.pingTimeout = tee.pingTimeout;
+  status.lastPingAt = now - tee.timeSinceLastPing * 1000;
+  status.gasBalance = formatEther(await getRoflGasBalance());
+
+  if (!tee.isAlive) {
+    console.error('Liveness: ping timeout has already passed; emergency exits may be open');
+  }
+
+  if (tee.timeSinceLastPing >= tee.pingTimeout * env.LIVENESS_PING_AFTER_FRACTION) {
+    const hash = await sendPing();
+    const pinged = await getTeeStatus();
+
+    status.lastPingTxHash = hash;
+    status.isAlive = pinged.isAlive;
+    status.timeUntilTimeout = pinged.timeUntilTimeout;
+    status.lastPingAt = Date.now() - pinged.timeSinceLastPing * 1000;
+    console.log(`Liveness: pinged contract (${hash}), ${pinged.timeUntilTimeout}s until timeout`);
+  }
+};
+
+// Keep the TEE marked alive on-chain; requires the ROFL wallet
+export const startLivenessPinger = (): void => {
+  const tick = async () => {
+    let delay = env.LIVENESS_CHECK_INTERVAL_MS;
+    try {
+      await check();
+      status.consecutiveFailures = 0;
+      status.lastError = null;
+    } catch (error) {
+      status.consecutiveFailures++;
+      status.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Liveness check failed (${status.consecutiveFailures} in a row):`, error);
+      delay = env.LIVENESS_RETRY_INTERVAL_MS;
+    }
+    if (running) timer = setTimeout(tick, delay);
+  };
+
+  running = true;
+  status.enabled = true;
+  void tick();
+};
+
+export const stopLivenessPinger = (): void => {
+  running = false;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
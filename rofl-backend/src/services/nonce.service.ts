@@ -0,0 +1,21 @@
+import { dbGet } from './db.service';
+import { StateTransaction } from './state.service';
+
+const NONCE_PREFIX = 'nonce:';
+
+// Get the next nonce a wallet must sign for its next transfer; pass tx to include its staged changes
+export const getNonce = async (wallet: string, tx?: StateTransaction): Promise<number> => {
+  const key = `${NONCE_PREFIX}${wallet.toLowerCase()}`;
+  const value = tx ? await tx.get(key) : await dbGet(key);
+  return value ? parseInt(value, 10) : 0;
+};
+
+// Mark a nonce as used within tx; returns false if it is not the wallet's next expected nonce
+export const consumeNonce = async (wallet: string, nonce: number, tx: StateTransaction): Promise<boolean> => {
+  const current = await getNonce(wallet, tx);
+  if (nonce !== current) return false;
+
+  const key = `${NONCE_PREFIX}${wallet.toLowerCase()}`;
+  tx.put(key, (current + 1).toString());
+  return true;
+};
@@ -0,0 +1,222 @@
+import { BaseError } from 'viem';
+import { AccountDiscrepancy, ReconciliationReport, TokenReconciliation } from '../types/reconciliation.types';
+import { BalanceEntry } from '../types/balance.types';
+import { PendingDeposit } from '../types/deposit.types';
+import { JournalEntry } from '../types/journal.types';
+import { WithdrawalRecord } from '../types/withdrawal.types';
+import { dbGet, dbPut } from './db.service';
+import { runStateTransition } from './state.service';
+import { getLedgerBalances } from './balance.service';
+import { getAllPendingDeposits } from './deposit.service';
+import { getAllWithdrawals } from './withdrawal.service';
+import { getJournalEntries, SYSTEM_ACCOUNTS } from './journal.service';
+import { getCustodyBalance } from './token.service';
+import { env } from '../config/env';
+
+// reconciliation:last -> ReconciliationReport
+const LAST_KEY = 'reconciliation:last';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let reconciling: Promise<ReconciliationReport> | null = null;
+
+interface LedgerSnapshot {
+  balances: BalanceEntry[];
+  pendingDeposits: PendingDeposit[];
+  withdrawals: WithdrawalRecord[];
+  journal: JournalEntry[];
+}
+
+// Amounts keyed by wallet:token (or just token), lowercased
+class Totals {
+  private amounts = new Map<string, bigint>();
+
+  add(key: string, amount: bigint): void {
+    const k = key.toLowerCase();
+    this.amounts.set(k, (this.amounts.get(k) ?? 0n) + amount);
+  }
+
+  get(key: string): bigint {
+    return this.amounts.get(key.toLowerCase()) ?? 0n;
+  }
+
+  keys(): string[] {
+    return [...this.amounts.keys()];
+  }
+}
+
+const accountKey = (wallet: string, token: string): string => `${wallet}:${token}`;
+
+// Read everything inside a transition so no deposit, transfer or withdrawal lands halfway through
+const readSnapshot = async (): Promise<LedgerSnapshot> => {
+  return runStateTransition(async () => {
+    const [balances, pendingDeposits, withdrawals, journal] = await Promise.all([
+      getLedgerBalances(),
+      getAllPendingDeposits(),
+      getAllWithdrawals(),
+      getJournalEntries(),
+    ]);
+    return { balances, pendingDeposits, withdrawals, journal };
+  });
+};
+
+// Sum each account's journal postings, opening entries included, and compare them with its ledger balance.
+// Every balance change goes through the journal, so a difference means a balance was written outside it.
+const findDiscrepancies = (snapshot: LedgerSnapshot): AccountDiscrepancy[] => {
+  const expected = new Totals();
+  for (const entry of snapshot.journal) {
+    for (const posting of entry.postings) {
+      if (posting.account.startsWith('system:')) continue;
+      expected.add(accountKey(posting.account, entry.token), BigInt(posting.amount));
+    }
+  }
+
+  const ledger = new Totals();
+  for (const entry of snapshot.balances) {
+    ledger.add(accountKey(entry.wallet, entry.token), BigInt(entry.balance));
+  }
+
+  const accounts = new Set([...expected.keys(), ...ledger.keys()]);
+  const discrepancies: AccountDiscrepancy[] = [];
+  for (const account of accounts) {
+    const [wallet, token] = account.split(':');
+
+    const difference = ledger.get(account) - expected.get(account);
+    if (difference !== 0n) {
+      discrepancies.push({
+        wallet,
+        token,
+        ledger: ledger.get(account).toString(),
+        expected: expected.get(account).toString(),
+        difference: difference.toString(),
+      });
+    }
+  }
+  return discrepancies;
+};
+
+// Compare what the contract holds per token with what the ledger owes
+const reconcileTokens = async (snapshot: LedgerSnapshot): Promise<TokenReconciliation[]> => {
+  const contract = env.VOID_CONTRACT_ADDRESS.toLowerCase();
+  const liabilities = new Totals();
+  const pending = new Totals();
+  const inFlight = new Totals();
+  const unclaimed = new Totals();
+
+  for (const entry of snapshot.balances) {
+    if (entry.wallet.toLowerCase() === contract) continue;
+    liabilities.add(entry.token, BigInt(entry.balance));
+  }
+  for (const deposit of snapshot.pendingDeposits) {
+    pending.add(deposit.token, BigInt(deposit.amount));
+  }
+  // Debited but still in the contract: about to be paid out, or to be refunded after a failure
+  for (const withdrawal of snapshot.withdrawals) {
+    if (withdrawal.debited && withdrawal.status !== 'confirmed' && withdrawal.status !== 'refunded') {
+      inFlight.add(withdrawal.token, BigInt(withdrawal.amount));
+    }
+  }
+  // Transfers to wallets without secrets; owed to them once they set one up
+  for (const entry of snapshot.journal) {
+    for (const posting of entry.postings) {
+      if (posting.account === SYSTEM_ACCOUNTS.unclaimed) unclaimed.add(entry.token, BigInt(posting.amount));
+    }
+  }
+
+  const tokens = new Set([...liabilities.keys(), ...pending.keys(), ...inFlight.keys(), ...unclaimed.keys()]);
+  const results: TokenReconciliation[] = [];
+  for (const token of tokens) {
+    const owed = liabilities.get(token) + pending.get(token) + inFlight.get(token) + unclaimed.get(token);
+    const result: TokenReconciliation = {
+      token,
+      liabilities: liabilities.get(token).toString(),
+      pendingDeposits: pending.get(token).toString(),
+      inFlightWithdrawals: inFlight.get(token).toString(),
+      unclaimed: unclaimed.get(token).toString(),
+      custody: null,
+      difference: null,
+      status: 'unknown',
+    };
+
+    try {
+      const custody = await getCustodyBalance(token);
+      const difference = custody - owed;
+      result.custody = custody.toString();
+      result.difference = difference.toString();
+      result.status = difference === 0n ? 'balanced' : difference > 0n ? 'surplus' : 'deficit';
+    } catch (error) {
+      result.error = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+    }
+    results.push(result);
+  }
+  return results;
+};
+
+const reconcile = async (): Promise<ReconciliationReport> => {
+  const snapshot = await readSnapshot();
+  // Custody is read after the snapshot; deposits mined in between show up as a temporary surplus
+  const tokens = await reconcileTokens(snapshot);
+  const discrepancies = findDiscrepancies(snapshot);
+
+  const report: ReconciliationReport = {
+    generatedAt: Date.now(),
+    solvent: tokens.every(token => token.status === 'balanced' || token.status === 'surplus'),
+    tokens,
+    discrepancies,
+  };
+  await dbPut(LAST_KEY, JSON.stringify(report));
+
+  for (const token of tokens) {
+    if (token.status === 'deficit') {
+      console.error(`Reconciliation: ${token.token} custody is short by ${-BigInt(token.difference as string)}`);
+    } else if (token.status === 'unknown') {
+      console.warn(`Reconciliation: could not read custody of ${token.token}: ${token.error}`);
+    }
+  }
+  if (discrepancies.length > 0) {
+    console.error(`Reconciliation: ${discrepancies.length} account(s) do not match their history`);
+  }
+
+  return report;
+};
+
+// Run a reconciliation now; concurrent callers share the one in progress
+export const runReconciliation = async (): Promise<ReconciliationReport> => {
+  if (!reconciling) {
+    reconciling = reconcile().finally(() => {
+      reconciling = null;
+    });
+  }
+  return reconciling;
+};
+
+export const getLastReconciliation = async (): Promise<ReconciliationReport | null> => {
+  const stored = await dbGet(LAST_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+// Reconcile every RECONCILIATION_INTERVAL_MS until stopReconciliationJob is called
+export const startReconciliationJob = (): void => {
+  if (env.RECONCILIATION_INTERVAL_MS <= 0) {
+    console.log('Reconciliation job disabled');
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      await runReconciliation();
+    } catch (error) {
+      console.error('Reconciliation failed:', error);
+    }
+    if (running) timer = setTimeout(tick, env.RECONCILIATION_INTERVAL_MS);
+  };
+
+  running = true;
+  void tick();
+};
+
+export const stopReconciliationJob = (): void => {
+  running = false;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
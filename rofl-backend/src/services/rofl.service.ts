@@ -1,7 +1,17 @@
-import { createPublicClient, createWalletClient, http } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  keccak256,
+  nonceManager,
+  parseAbi,
+  TransactionReceiptNotFoundError,
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { baseSepolia } from 'viem/chains';
 import { RoflClient, KeyKind } from '@oasisprotocol/rofl-client';
+import { getVoidDomain, STATE_ROOT_TYPES } from '../utils/eip712.util';
 import { env } from '../config/env';
 
 // In-memory storage for ROFL wallet
@@ -20,7 +30,8 @@ export const initializeRoflWallet = async (): Promise<void> => {
 
     const key = await client.generateKey('void-wallet', KeyKind.SECP256K1);
     roflPrivateKey = key.startsWith('0x') ? key as `0x${string}` : `0x${key}`;
-    roflAccount = privateKeyToAccount(roflPrivateKey);
+    // Nonces are tracked locally so withdrawals, pings and root commits never reuse one
+    roflAccount = privateKeyToAccount(roflPrivateKey, { nonceManager });
 
     console.log(`ROFL wallet initialized: ${roflAccount.address}`);
   } catch (error) {
@@ -36,31 +47,113 @@ export const getRoflWalletAddress = (): string => {
   return roflAccount.address;
 };
 
-// ERC20 decimals ABI
-const erc20DecimalsAbi = [
+const withdrawAbi = [
   {
-    name: 'decimals',
+    name: 'withdraw',
     type: 'function',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint8' }],
-    stateMutability: 'view',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'tokenAddress', type: 'address' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
   },
 ] as const;
 
-export const withdraw = async (to: string, amount: string, token: string): Promise<string> => {
+export interface SignedTransaction {
+  hash: `0x${string}`;
+  serialized: `0x${string}`;
+  nonce: number;
+}
+
+// Sign a withdraw call without sending it, so its hash can be recorded before broadcast.
+// Amount is in raw token base units (e.g. 2 USDC -> 2000000n)
+export const signWithdrawal = async (to: string, amount: bigint, token: string): Promise<SignedTransaction> => {
   if (!roflAccount || !roflPrivateKey) {
     throw new Error('ROFL wallet not initialized');
   }
 
-  // Get token decimals
-  const decimals = await publicClient.readContract({
-    address: token as `0x${string}`,
-    abi: erc20DecimalsAbi,
-    functionName: 'decimals',
+  const walletClient = createWalletClient({
+    account: roflAccount,
+    chain: baseSepolia,
+    transport: http(),
   });
 
-  // Convert decimal amount to raw amount (e.g., "2" USDC -> 2000000)
-  const rawAmount = BigInt(Math.floor(parseFloat(amount) * Math.pow(10, decimals)));
+  const request = await walletClient.prepareTransactionRequest({
+    to: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+    data: encodeFunctionData({
+      abi: withdrawAbi,
+      functionName: 'withdraw',
+      args: [to as `0x${string}`, amount, token as `0x${string}`],
+    }),
+  });
+
+  const serialized = await walletClient.signTransaction(request);
+  return { hash: keccak256(serialized), serialized, nonce: request.nonce };
+};
+
+export const broadcastTransaction = async (serialized: `0x${string}`): Promise<void> => {
+  await publicClient.sendRawTransaction({ serializedTransaction: serialized });
+};
+
+// Receipt status of a transaction, or null while it has not been mined
+export const getTransactionStatus = async (hash: `0x${string}`): Promise<'success' | 'reverted' | null> => {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return receipt.status;
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) return null;
+    throw error;
+  }
+};
+
+// Number of mined transactions sent by the ROFL wallet (its next confirmed nonce)
+export const getRoflTransactionCount = async (): Promise<number> => {
+  if (!roflAccount) {
+    throw new Error('ROFL wallet not initialized');
+  }
+  return publicClient.getTransactionCount({ address: roflAccount.address, blockTag: 'latest' });
+};
+
+export const getChainHead = async (): Promise<number> => {
+  return Number(await publicClient.getBlockNumber());
+};
+
+const livenessAbi = parseAbi([
+  'function ping()',
+  'function pingTimeout() view returns (uint256)',
+  'function checkTeeStatus() view returns (bool isAlive, uint256 timeSinceLastPing, uint256 timeUntilTimeout)',
+]);
+
+export interface TeeStatus {
+  isAlive: boolean;
+  timeSinceLastPing: number; // seconds
+  timeUntilTimeout: number; // seconds
+  pingTimeout: number; // seconds
+}
+
+// Liveness as seen by the Void contract
+export const getTeeStatus = async (): Promise<TeeStatus> => {
+  const address = env.VOID_CONTRACT_ADDRESS as `0x${string}`;
+  const [[isAlive, timeSinceLastPing, timeUntilTimeout], pingTimeout] = await Promise.all([
+    publicClient.readContract({ address, abi: livenessAbi, functionName: 'checkTeeStatus' }),
+    publicClient.readContract({ address, abi: livenessAbi, functionName: 'pingTimeout' }),
+  ]);
+
+  return {
+    isAlive,
+    timeSinceLastPing: Number(timeSinceLastPing),
+    timeUntilTimeout: Number(timeUntilTimeout),
+    pingTimeout: Number(pingTimeout),
+  };
+};
+
+// Call ping() on the Void contract and wait for it to be mined
+export const sendPing = async (): Promise<`0x${string}`> => {
+  if (!roflAccount) {
+    throw new Error('ROFL wallet not initialized');
+  }
 
   const walletClient = createWalletClient({
     account: roflAccount,
@@ -68,30 +161,102 @@ export const withdraw = async (to: string, amount: string, token: string): Promi
     transport: http(),
   });
 
-  // Withdraw function ABI
-  const withdrawAbi = [
-    {
-      name: 'withdraw',
-      type: 'function',
-      inputs: [
-        { name: 'to', type: 'address' },
-        { name: 'amount', type: 'uint256' },
-        { name: 'tokenAddress', type: 'address' },
-      ],
-      outputs: [],
-      stateMutability: 'nonpayable',
-    },
-  ] as const;
-
   const hash = await walletClient.writeContract({
     address: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
-    abi: withdrawAbi,
-    functionName: 'withdraw',
-    args: [to as `0x${string}`, rawAmount, token as `0x${string}`],
+    abi: livenessAbi,
+    functionName: 'ping',
   });
 
-  // Wait for transaction confirmation
   const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Ping transaction ${hash} reverted`);
+  }
+  return hash;
+};
 
-  return receipt.transactionHash;
+// Native balance of the ROFL wallet in wei, used to pay for pings and withdrawals
+export const getRoflGasBalance = async (): Promise<bigint> => {
+  if (!roflAccount) {
+    throw new Error('ROFL wallet not initialized');
+  }
+  return publicClient.getBalance({ address: roflAccount.address });
+};
+
+const stateRootAbi = parseAbi([
+  'struct StateRootInfo { bytes32 stateRoot; uint256 term; bytes signature; bytes32 liabilitiesRoot; }',
+  'function SetState(StateRootInfo root)',
+  'function getLastRoot() view returns (StateRootInfo)',
+]);
+
+export interface OnChainStateRoot {
+  stateRoot: `0x${string}`;
+  term: number;
+  signature: `0x${string}`;
+  liabilitiesRoot: `0x${string}`;
+}
+
+// Sign a StateRoot attestation with the ROFL key under the Void EIP-712 domain
+export const signStateRoot = async (
+  stateRoot: `0x${string}`,
+  txRoot: `0x${string}`,
+  liabilitiesRoot: `0x${string}`,
+  term: number
+): Promise<`0x${string}`> => {
+  if (!roflAccount) {
+    throw new Error('ROFL wallet not initialized');
+  }
+
+  return roflAccount.signTypedData({
+    domain: getVoidDomain(),
+    types: STATE_ROOT_TYPES,
+    primaryType: 'StateRoot',
+    message: { stateRoot, txRoot, liabilitiesRoot, term: BigInt(term) },
+  });
+};
+
+// Last root committed through SetState (term 0 if none has been)
+export const getCommittedStateRoot = async (): Promise<OnChainStateRoot> => {
+  const root = await publicClient.readContract({
+    address: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+    abi: stateRootAbi,
+    functionName: 'getLastRoot',
+  });
+
+  return {
+    stateRoot: root.stateRoot,
+    term: Number(root.term),
+    signature: root.signature,
+    liabilitiesRoot: root.liabilitiesRoot,
+  };
+};
+
+// Call SetState on the Void contract and wait for it to be mined
+export const sendStateRoot = async (root: OnChainStateRoot): Promise<`0x${string}`> => {
+  if (!roflAccount) {
+    throw new Error('ROFL wallet not initialized');
+  }
+
+  const walletClient = createWalletClient({
+    account: roflAccount,
+    chain: baseSepolia,
+    transport: http(),
+  });
+
+  const hash = await walletClient.writeContract({
+    address: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+    abi: stateRootAbi,
+    functionName: 'SetState',
+    args: [{
+      stateRoot: root.stateRoot,
+      term: BigInt(root.term),
+      signature: root.signature,
+      liabilitiesRoot: root.liabilitiesRoot,
+    }],
+  });
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`SetState transaction ${hash} reverted`);
+  }
+  return hash;
 };
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import { SecretRotation } from '../types/rotation.types';
+import { AppError } from '../api/middlewares/errorHandler';
+import { dbGetAll } from './db.service';
+import { runStateTransition } from './state.service';
+import {
+  createSecretSeed,
+  getBalanceSecret,
+  getSecretSeed,
+  getSecretVersion,
+  getTxSecret,
+  stageRetiredSecret,
+  stageSecretsFromSeed,
+} from './secret.service';
+import { getBalanceTree, rekeyBalanceLeaves } from './balance.service';
+import { getTxTree, rekeyTxLeaves } from './transaction.service';
+import { SignerKind } from '../utils/wallet.util';
+import { env } from '../config/env';
+
+// secret:rotation:<wallet>:<generation> -> SecretRotation
+const ROTATION_PREFIX = 'secret:rotation:';
+
+const padGeneration = (generation: number): string => generation.toString().padStart(6, '0');
+
+// Replace the wallet's secrets with ones derived from a verified RotateSecrets signature and move all
+// of its balance and transaction leaves to the new keys. Secrets, leaves and the audit record are
+// written in one transition, so no request ever sees the new secret with the old keys or the reverse.
+// The old balance secret is retired rather than dropped: roots committed before now still hold its keys.
+export const rotateSecrets = async (
+  wallet: string,
+  signature: string,
+  signer: SignerKind,
+  generation: number,
+  sessionId?: string
+): Promise<SecretRotation> => {
+  if (wallet.toLowerCase() === env.VOID_CONTRACT_ADDRESS.toLowerCase()) {
+    throw new AppError('Contract secrets cannot be rotated', 400);
+  }
+
+  const rotation = await runStateTransition(async (tx) => {
+    const [balanceSecret, txSecret, seed, fromVersion] = await Promise.all([
+      getBalanceSecret(wallet),
+      getTxSecret(wallet),
+      getSecretSeed(wallet),
+      getSecretVersion(wallet, 'balance'),
+    ]);
+    if (!balanceSecret || !txSecret || !fromVersion) {
+      throw new AppError('Wallet has not set its secrets', 400);
+    }
+
+    // Each rotation signs the next generation, so an earlier rotation signature cannot be replayed
+    const expected = (seed?.generation ?? 0) + 1;
+    if (generation !== expected) {
+      throw new AppError(`Rotation generation must be ${expected}`, 409);
+    }
+
+    const balanceTree = getBalanceTree();
+    const txTree = getTxTree();
+    const stateRootBefore = balanceTree.root;
+    const txRootBefore = txTree.root;
+
+    const next = createSecretSeed(signature, signer, generation);
+    stageRetiredSecret(wallet, { secret: balanceSecret, version: fromVersion, generation: seed?.generation ?? 0 }, tx);
+    const secrets = stageSecretsFromSeed(wallet, next, tx);
+    const balanceLeaves = await rekeyBalanceLeaves(wallet, balanceSecret, secrets.balance, tx);
+    const txLeaves = await rekeyTxLeaves(wallet, txSecret, secrets.tx, tx);
+
+    const record: SecretRotation = {
+      id: randomUUID(),
+      wallet,
+      generation,
+      fromVersion,
+      toVersion: next.version,
+      source: next.source,
+      balanceLeaves,
+      txLeaves,
+      stateRootBefore,
+      stateRootAfter: tx.changesFor(balanceTree).root,
+      txRootBefore,
+      txRootAfter: tx.changesFor(txTree).root,
+      sessionId,
+      rotatedAt: Date.now(),
+    };
+    tx.put(`${ROTATION_PREFIX}${wallet.toLowerCase()}:${padGeneration(generation)}`, JSON.stringify(record));
+    return record;
+  });
+
+  console.log(`Rotated secrets of ${wallet} (generation ${generation}): moved ${rotation.balanceLeaves} balance and ${rotation.txLeaves} tx leaves`);
+  return rotation;
+};
+
+// Rotations of a wallet, oldest first
+export const getSecretRotations = async (wallet: string): Promise<SecretRotation[]> => {
+  const entries = await dbGetAll(`${ROTATION_PREFIX}${wallet.toLowerCase()}:`);
+  return entries.map(entry => JSON.parse(entry.value));
+};
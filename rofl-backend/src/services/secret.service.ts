@@ -1,64 +1,233 @@
-import { keccak256, toBytes } from 'viem';
-import { dbGet, dbPut } from './db.service';
+import { hkdfSync, randomBytes } from 'crypto';
+import { keccak256, toBytes, toHex } from 'viem';
+import { dbBatch, dbGet, dbGetAll, dbPut, DbOperation } from './db.service';
+import { SignerKind } from '../utils/wallet.util';
+import { BalanceSecretInfo, RetiredSecret, SecretPurpose, SecretSeed, SecretSource, SecretVersion } from '../types/wallet.types';
+import { AppError } from '../api/middlewares/errorHandler';
+import { StateTransaction } from './state.service';
 
 const BALANCE_SECRET_PREFIX = 'secret:balance:';
 const TX_SECRET_PREFIX = 'secret:tx:';
+// secret:source:<wallet> -> SecretSource of the wallet's secrets
+const SECRET_SOURCE_PREFIX = 'secret:source:';
+// secret:seed:<wallet> -> SecretSeed
+const SECRET_SEED_PREFIX = 'secret:seed:';
+// secret:version:<purpose>:<wallet> -> SecretVersion of the stored secret; absent for 'legacy'
+const SECRET_VERSION_PREFIX = 'secret:version:';
+// secret:retired:<wallet>:<generation> -> RetiredSecret
+const RETIRED_SECRET_PREFIX = 'secret:retired:';
 
 export const BALANCE_SECRET_MESSAGE = 'Cloak Wallet Balances Secret';
 export const TX_SECRET_MESSAGE = 'Cloak Wallet Transactions Secret';
 
-// Derive secret from signature
-const deriveSecret = (signature: string): string => {
+// Single onboarding signature (OnboardSecrets typed data) that every versioned secret is derived from
+export const SECRETS_MESSAGE = 'Cloak Wallet Secrets';
+// Derivation used for new wallets; wallets keep the version their secrets were created with
+export const SECRET_VERSION: SecretVersion = 'v1';
+// RotateSecrets typed data; its generation makes each rotation signature, and so each new seed, unique
+export const ROTATE_SECRETS_MESSAGE = 'Cloak Wallet Secrets Rotation';
+
+const SECRET_KEY_PREFIX: Record<SecretPurpose, string> = {
+  balance: BALANCE_SECRET_PREFIX,
+  tx: TX_SECRET_PREFIX,
+};
+
+// Wallets whose onboarding is being written; a second concurrent request could pick a different random seed
+const onboarding = new Set<string>();
+
+// Derive secret from an EOA signature, or generate one for a contract wallet
+const deriveSecret = (signature: string, signer: SignerKind): string => {
+  if (signer === 'contract') return toHex(randomBytes(32));
   return keccak256(toBytes(signature).slice(0, 64));
 };
 
+const recordSecretSource = async (wallet: string, signer: SignerKind): Promise<void> => {
+  const source: SecretSource = signer === 'contract' ? 'random' : 'signature';
+  await dbPut(`${SECRET_SOURCE_PREFIX}${wallet.toLowerCase()}`, source);
+};
+
+// Wallets onboarded before contract wallets were supported are EOAs
+export const getSecretSource = async (wallet: string): Promise<SecretSource | null> => {
+  const source = await dbGet(`${SECRET_SOURCE_PREFIX}${wallet.toLowerCase()}`);
+  if (source) return source as SecretSource;
+  return (await hasBalanceSecret(wallet)) || (await hasTxSecret(wallet)) ? 'signature' : null;
+};
+
 // Balance Secret
-export const getBalanceSecret = async (wallet: string): Promise<string | null> => {
+export const getBalanceSecret = async (wallet: string, tx?: StateTransaction): Promise<string | null> => {
   const key = `${BALANCE_SECRET_PREFIX}${wallet.toLowerCase()}`;
-  return await dbGet(key);
+  return tx ? await tx.get(key) : await dbGet(key);
 };
 
-export const setBalanceSecret = async (wallet: string, signature: string): Promise<string> => {
+// Wallets that have set a balance secret, lowercased
+export const getWalletsWithBalanceSecret = async (): Promise<string[]> => {
+  const entries = await dbGetAll(BALANCE_SECRET_PREFIX);
+  return entries.map(entry => entry.key.slice(BALANCE_SECRET_PREFIX.length));
+};
+
+export const setBalanceSecret = async (wallet: string, signature: string, signer: SignerKind = 'eoa'): Promise<string> => {
   const existing = await getBalanceSecret(wallet);
   if (existing) return existing; // already set (e.g. re-onboarding) → success
 
-  const secret = deriveSecret(signature);
+  const secret = deriveSecret(signature, signer);
   const key = `${BALANCE_SECRET_PREFIX}${wallet.toLowerCase()}`;
   await dbPut(key, secret);
+  await recordSecretSource(wallet, signer);
   return secret;
 };
 
-export const hasBalanceSecret = async (wallet: string): Promise<boolean> => {
-  const secret = await getBalanceSecret(wallet);
+export const hasBalanceSecret = async (wallet: string, tx?: StateTransaction): Promise<boolean> => {
+  const secret = await getBalanceSecret(wallet, tx);
   return secret !== null;
 };
 
 // Transaction Secret
-export const getTxSecret = async (wallet: string): Promise<string | null> => {
+export const getTxSecret = async (wallet: string, tx?: StateTransaction): Promise<string | null> => {
   const key = `${TX_SECRET_PREFIX}${wallet.toLowerCase()}`;
-  return await dbGet(key);
+  return tx ? await tx.get(key) : await dbGet(key);
 };
 
-export const setTxSecret = async (wallet: string, signature: string): Promise<string> => {
+export const setTxSecret = async (wallet: string, signature: string, signer: SignerKind = 'eoa'): Promise<string> => {
   const existing = await getTxSecret(wallet);
   if (existing) return existing; // already set → success
 
-  const secret = deriveSecret(signature);
+  const secret = deriveSecret(signature, signer);
   const key = `${TX_SECRET_PREFIX}${wallet.toLowerCase()}`;
   await dbPut(key, secret);
+  await recordSecretSource(wallet, signer);
   return secret;
 };
 
-export const hasTxSecret = async (wallet: string): Promise<boolean> => {
-  const secret = await getTxSecret(wallet);
+export const hasTxSecret = async (wallet: string, tx?: StateTransaction): Promise<boolean> => {
+  const secret = await getTxSecret(wallet, tx);
   return secret !== null;
 };
 
 // Check if user has both secrets
-export const hasAllSecrets = async (wallet: string): Promise<boolean> => {
+export const hasAllSecrets = async (wallet: string, tx?: StateTransaction): Promise<boolean> => {
   const [hasBalance, hasTx] = await Promise.all([
-    hasBalanceSecret(wallet),
-    hasTxSecret(wallet)
+    hasBalanceSecret(wallet, tx),
+    hasTxSecret(wallet, tx)
   ]);
   return hasBalance && hasTx;
 };
+
+// HKDF-SHA256 over the onboarding seed. The salt binds the secret to the wallet and the info string
+// separates purposes and versions, so secrets of different types never collide.
+export const deriveVersionedSecret = (
+  seed: string,
+  wallet: string,
+  purpose: SecretPurpose,
+  version: SecretVersion = SECRET_VERSION
+): string => {
+  const salt = Buffer.from(`cloak-wallet:${wallet.toLowerCase()}`, 'utf8');
+  const info = Buffer.from(`cloak-wallet/${purpose}/${version}`, 'utf8');
+  return toHex(new Uint8Array(hkdfSync('sha256', toBytes(seed), salt, info, 32)));
+};
+
+// Seed from the r || s of a verified signature; contract wallet signatures are not reproducible, so theirs is random
+export const createSecretSeed = (signature: string, signer: SignerKind, generation: number): SecretSeed => ({
+  version: SECRET_VERSION,
+  seed: signer === 'contract' ? toHex(randomBytes(32)) : toHex(toBytes(signature).slice(0, 64)),
+  source: signer === 'contract' ? 'random' : 'signature',
+  generation,
+  createdAt: Date.now(),
+});
+
+export const getSecretSeed = async (wallet: string): Promise<SecretSeed | null> => {
+  const stored = await dbGet(`${SECRET_SEED_PREFIX}${wallet.toLowerCase()}`);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const getSecretVersion = async (wallet: string, purpose: SecretPurpose): Promise<SecretVersion | null> => {
+  const secret = await dbGet(`${SECRET_KEY_PREFIX[purpose]}${wallet.toLowerCase()}`);
+  if (!secret) return null;
+  const version = await dbGet(`${SECRET_VERSION_PREFIX}${purpose}:${wallet.toLowerCase()}`);
+  return (version as SecretVersion | null) ?? 'legacy';
+};
+
+// The wallet's current balance secret with its version and generation
+export const getBalanceSecretInfo = async (wallet: string): Promise<BalanceSecretInfo | null> => {
+  const [secret, version, seed] = await Promise.all([
+    getBalanceSecret(wallet),
+    getSecretVersion(wallet, 'balance'),
+    getSecretSeed(wallet),
+  ]);
+  if (!secret || !version) return null;
+  return { secret, version, generation: seed?.generation ?? 0 };
+};
+
+// Balance secrets replaced by rotations, newest first
+export const getRetiredSecrets = async (wallet: string): Promise<RetiredSecret[]> => {
+  const entries = await dbGetAll(`${RETIRED_SECRET_PREFIX}${wallet.toLowerCase()}:`);
+  return entries.map((entry): RetiredSecret => JSON.parse(entry.value)).reverse();
+};
+
+// Set every missing secret from one verified OnboardSecrets signature, in a single batch.
+// Secrets that already exist (e.g. from the legacy two-signature flow) are kept.
+export const onboardSecrets = async (
+  wallet: string,
+  signature: string,
+  signer: SignerKind = 'eoa'
+): Promise<SecretPurpose[]> => {
+  const walletLower = wallet.toLowerCase();
+  if (onboarding.has(walletLower)) {
+    throw new AppError('Onboarding already in progress', 409);
+  }
+  onboarding.add(walletLower);
+
+  try {
+    const operations: DbOperation[] = [];
+
+    let seed = await getSecretSeed(wallet);
+    if (!seed) {
+      seed = createSecretSeed(signature, signer, 0);
+      operations.push({ type: 'put', key: `${SECRET_SEED_PREFIX}${walletLower}`, value: JSON.stringify(seed) });
+    }
+
+    const created: SecretPurpose[] = [];
+    for (const purpose of Object.keys(SECRET_KEY_PREFIX) as SecretPurpose[]) {
+      if (await dbGet(`${SECRET_KEY_PREFIX[purpose]}${walletLower}`)) continue;
+      const secret = deriveVersionedSecret(seed.seed, wallet, purpose, seed.version);
+      operations.push({ type: 'put', key: `${SECRET_KEY_PREFIX[purpose]}${walletLower}`, value: secret });
+      operations.push({ type: 'put', key: `${SECRET_VERSION_PREFIX}${purpose}:${walletLower}`, value: seed.version });
+      created.push(purpose);
+    }
+
+    if (created.length > 0 && !(await dbGet(`${SECRET_SOURCE_PREFIX}${walletLower}`))) {
+      operations.push({ type: 'put', key: `${SECRET_SOURCE_PREFIX}${walletLower}`, value: seed.source });
+    }
+
+    await dbBatch(operations);
+    return created;
+  } finally {
+    onboarding.delete(walletLower);
+  }
+};
+
+// Stage a new seed and every secret derived from it in tx, replacing the wallet's current ones.
+// The caller re-keys the wallet's leaves in the same transition. Returns the new secrets.
+export const stageSecretsFromSeed = (
+  wallet: string,
+  seed: SecretSeed,
+  tx: StateTransaction
+): Record<SecretPurpose, string> => {
+  const walletLower = wallet.toLowerCase();
+  const secrets = {} as Record<SecretPurpose, string>;
+
+  for (const purpose of Object.keys(SECRET_KEY_PREFIX) as SecretPurpose[]) {
+    secrets[purpose] = deriveVersionedSecret(seed.seed, wallet, purpose, seed.version);
+    tx.put(`${SECRET_KEY_PREFIX[purpose]}${walletLower}`, secrets[purpose]);
+    tx.put(`${SECRET_VERSION_PREFIX}${purpose}:${walletLower}`, seed.version);
+  }
+  tx.put(`${SECRET_SEED_PREFIX}${walletLower}`, JSON.stringify(seed));
+  tx.put(`${SECRET_SOURCE_PREFIX}${walletLower}`, seed.source);
+  return secrets;
+};
+
+// Stage the balance secret a rotation replaces, so proofs against roots committed before it keep working
+export const stageRetiredSecret = (wallet: string, retired: BalanceSecretInfo, tx: StateTransaction): void => {
+  const record: RetiredSecret = { ...retired, retiredAt: Date.now() };
+  const generation = retired.generation.toString().padStart(6, '0');
+  tx.put(`${RETIRED_SECRET_PREFIX}${wallet.toLowerCase()}:${generation}`, JSON.stringify(record));
+};
@@ -0,0 +1,139 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { AuthSession, SessionClient, SessionInfo } from '../types/auth.types';
+import { dbBatch, dbGet, dbGetAll, dbPut, DbOperation } from './db.service';
+import { env } from '../config/env';
+
+// auth:session:<id> -> AuthSession
+const SESSION_PREFIX = 'auth:session:';
+// auth:wallet-session:<wallet>:<id> -> '' (index of a wallet's sessions)
+const WALLET_SESSION_PREFIX = 'auth:wallet-session:';
+
+const SESSION_ID = /^[0-9a-f-]{36}$/;
+
+// Sessions with a refresh in progress; a concurrent refresh of the same session fails instead of racing it
+const refreshing = new Set<string>();
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = (sessionId: string): string => `${sessionId}.${randomBytes(32).toString('hex')}`;
+
+const walletSessionKey = (wallet: string, id: string): string => `${WALLET_SESSION_PREFIX}${wallet.toLowerCase()}:${id}`;
+
+const saveSession = async (session: AuthSession): Promise<void> => {
+  await dbPut(`${SESSION_PREFIX}${session.id}`, JSON.stringify(session));
+};
+
+export const isSessionActive = (session: AuthSession, now = Date.now()): boolean =>
+  !session.revokedAt && session.expiresAt > now;
+
+export const getSession = async (id: string): Promise<AuthSession | null> => {
+  if (!SESSION_ID.test(id)) return null;
+  const stored = await dbGet(`${SESSION_PREFIX}${id}`);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const getWalletSessions = async (wallet: string): Promise<AuthSession[]> => {
+  const entries = await dbGetAll(`${WALLET_SESSION_PREFIX}${wallet.toLowerCase()}:`);
+  const sessions = await Promise.all(entries.map(entry => getSession(entry.key.split(':').pop() as string)));
+  return sessions.filter((session): session is AuthSession => session !== null);
+};
+
+// Expired and revoked sessions are dropped when the wallet next logs in
+const pruneSessions = async (wallet: string): Promise<void> => {
+  const now = Date.now();
+  const operations: DbOperation[] = [];
+  for (const session of await getWalletSessions(wallet)) {
+    if (isSessionActive(session, now)) continue;
+    operations.push({ type: 'del', key: `${SESSION_PREFIX}${session.id}` });
+    operations.push({ type: 'del', key: walletSessionKey(wallet, session.id) });
+  }
+  await dbBatch(operations);
+};
+
+// Start a session lasting REFRESH_TOKEN_TTL_MS; the refresh token is returned once and only its hash is kept
+export const createSession = async (
+  wallet: string,
+  client: SessionClient = {}
+): Promise<{ session: AuthSession; refreshToken: string }> => {
+  await pruneSessions(wallet);
+
+  const id = randomUUID();
+  const refreshToken = newRefreshToken(id);
+  const now = Date.now();
+  const session: AuthSession = {
+    id,
+    wallet,
+    refreshTokenHash: hashToken(refreshToken),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: now + env.REFRESH_TOKEN_TTL_MS,
+    userAgent: client.userAgent,
+    ip: client.ip,
+  };
+
+  await dbBatch([
+    { type: 'put', key: `${SESSION_PREFIX}${id}`, value: JSON.stringify(session) },
+    { type: 'put', key: walletSessionKey(wallet, id), value: '' },
+  ]);
+  return { session, refreshToken };
+};
+
+// Exchange a refresh token for the next one. Returns null unless it is the session's current token;
+// the token it replaced revokes the session, since a copy of it is being used by someone else.
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<{ session: AuthSession; refreshToken: string } | null> => {
+  const id = refreshToken.split('.')[0];
+  if (refreshing.has(id)) return null;
+  refreshing.add(id);
+
+  try {
+    const session = await getSession(id);
+    if (!session || !isSessionActive(session)) return null;
+
+    const hash = hashToken(refreshToken);
+    if (hash === session.previousRefreshTokenHash) {
+      await saveSession({ ...session, revokedAt: Date.now(), revokedReason: 'refresh-token-reuse' });
+      console.warn(`Session ${id} of ${session.wallet} revoked: a rotated refresh token was used again`);
+      return null;
+    }
+    if (!timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(session.refreshTokenHash, 'hex'))) return null;
+
+    const next = newRefreshToken(id);
+    const updated: AuthSession = {
+      ...session,
+      refreshTokenHash: hashToken(next),
+      previousRefreshTokenHash: hash,
+      lastUsedAt: Date.now(),
+    };
+    await saveSession(updated);
+    return { session: updated, refreshToken: next };
+  } finally {
+    refreshing.delete(id);
+  }
+};
+
+// Returns false if the session does not exist or was already revoked
+export const revokeSession = async (id: string, reason: AuthSession['revokedReason']): Promise<boolean> => {
+  const session = await getSession(id);
+  if (!session || session.revokedAt) return false;
+  await saveSession({ ...session, revokedAt: Date.now(), revokedReason: reason });
+  return true;
+};
+
+// Active sessions of a wallet, most recently used first
+export const listSessions = async (wallet: string, currentId?: string): Promise<SessionInfo[]> => {
+  const now = Date.now();
+  return (await getWalletSessions(wallet))
+    .filter(session => isSessionActive(session, now))
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      current: session.id === currentId,
+    }));
+};
@@ -0,0 +1,80 @@
+import { dbGet, dbBatch, DbOperation } from './db.service';
+import { PersistentSMT, SMTChanges } from '../utils/smt.util';
+
+/**
+ * Staged writes of one state transition. Database keys and SMT changes are collected here
+ * and committed together by runStateTransition, so a crash never leaves a partial transfer.
+ */
+export class StateTransaction {
+  private operations = new Map<string, DbOperation>();
+  private trees = new Map<PersistentSMT, SMTChanges>();
+
+  put(key: string, value: string): void {
+    this.operations.set(key, { type: 'put', key, value });
+  }
+
+  del(key: string): void {
+    this.operations.set(key, { type: 'del', key });
+  }
+
+  // Read a key, seeing writes staged earlier in this transaction
+  async get(key: string): Promise<string | null> {
+    const staged = this.operations.get(key);
+    if (staged) return staged.type === 'put' ? staged.value : null;
+    return dbGet(key);
+  }
+
+  // Staged changes for a tree, started from its committed root on first use
+  changesFor(tree: PersistentSMT): SMTChanges {
+    let changes = this.trees.get(tree);
+    if (!changes) {
+      changes = tree.beginChanges();
+      this.trees.set(tree, changes);
+    }
+    return changes;
+  }
+
+  toOperations(): DbOperation[] {
+    const operations = [...this.operations.values()];
+    for (const [tree, changes] of this.trees) {
+      if (changes.root !== tree.root) operations.push(...tree.toOperations(changes));
+    }
+    return operations;
+  }
+
+  apply(): void {
+    for (const [tree, changes] of this.trees) {
+      tree.applyChanges(changes);
+    }
+  }
+}
+
+// Called after each committed transition, e.g. to count mutations since the last published root
+const commitListeners: (() => void)[] = [];
+
+export const onStateCommitted = (listener: () => void): void => {
+  commitListeners.push(listener);
+};
+
+// Transitions run one at a time so each starts from the previous committed roots.
+// This is also the ordering point for every balance change: checks such as "sufficient balance"
+// must read through tx inside fn, never before it, or concurrent requests can double-spend.
+let queue: Promise<unknown> = Promise.resolve();
+
+// Run fn against a fresh transaction and commit everything it staged in a single batch.
+// If fn throws, nothing is written and the trees keep their committed roots.
+// fn holds the queue while it runs, so it must not wait on the network (RPC calls, receipts).
+export const runStateTransition = <T>(fn: (tx: StateTransaction) => Promise<T>): Promise<T> => {
+  const run = queue.then(async () => {
+    const tx = new StateTransaction();
+    const result = await fn(tx);
+    await dbBatch(tx.toOperations());
+    tx.apply();
+    commitListeners.forEach((listener) => listener());
+    return result;
+  });
+
+  // Keep the queue going after a failed transition
+  queue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,166 @@
+import { hashLiabilities } from 'smt-verifier';
+import { StateRootCommitment } from '../types/stateRoot.types';
+import { dbGet, dbGetAll, dbPut, dbBatch } from './db.service';
+import { getLiabilities, getRoot } from './balance.service';
+import { getTxRoot } from './transaction.service';
+import { onStateCommitted } from './state.service';
+import { signStateRoot, getCommittedStateRoot, sendStateRoot } from './rofl.service';
+import { env } from '../config/env';
+
+// stateroot:pending -> StateRootCommitment signed but not yet known to be mined
+const PENDING_KEY = 'stateroot:pending';
+// stateroot:last -> term of the last committed root
+const LAST_KEY = 'stateroot:last';
+// stateroot:term:<term> -> committed StateRootCommitment
+const TERM_PREFIX = 'stateroot:term:';
+// stateroot:root:<stateRoot> -> term that committed it; the SMT keeps these roots' nodes for exit proofs
+const ROOT_PREFIX = 'stateroot:root:';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let publishing: Promise<void> | null = null;
+let listening = false;
+
+// Balance root changes since the last publish attempt
+let mutations = 0;
+let lastSeenRoot: string | null = null;
+
+const termKey = (term: number): string => `${TERM_PREFIX}${term.toString().padStart(12, '0')}`;
+
+const toBytes32 = (root: string): `0x${string}` => `0x${root.replace(/^0x/, '').padStart(64, '0')}`;
+
+export const getLastCommittedRoot = async (): Promise<StateRootCommitment | null> => {
+  const term = await dbGet(LAST_KEY);
+  if (term === null) return null;
+
+  const stored = await dbGet(termKey(Number(term)));
+  return stored ? JSON.parse(stored) : null;
+};
+
+// Every commitment recorded as mined, oldest term first
+export const getCommittedRoots = async (): Promise<StateRootCommitment[]> => {
+  const entries = await dbGetAll(TERM_PREFIX);
+  return entries.map(entry => JSON.parse(entry.value));
+};
+
+// Commitment of a root that has been committed on-chain, or null for any other root
+export const getCommitmentForRoot = async (stateRoot: string): Promise<StateRootCommitment | null> => {
+  const term = await dbGet(`${ROOT_PREFIX}${toBytes32(stateRoot.toLowerCase())}`);
+  if (term === null) return null;
+
+  const stored = await dbGet(termKey(Number(term)));
+  return stored ? JSON.parse(stored) : null;
+};
+
+const recordCommitted = async (commitment: StateRootCommitment, txHash?: string): Promise<void> => {
+  const committed: StateRootCommitment = { ...commitment, status: 'committed', txHash, committedAt: Date.now() };
+  await dbBatch([
+    { type: 'put', key: termKey(committed.term), value: JSON.stringify(committed) },
+    { type: 'put', key: `${ROOT_PREFIX}${committed.stateRoot}`, value: String(committed.term) },
+    { type: 'put', key: LAST_KEY, value: String(committed.term) },
+    { type: 'del', key: PENDING_KEY },
+  ]);
+  console.log(`State root ${committed.stateRoot} committed under term ${committed.term}`);
+};
+
+// Sign the current roots under the next on-chain term and submit them. A commitment signed
+// before a restart is resent as is, so a term is never signed over two different roots.
+const publish = async (): Promise<void> => {
+  const stored = await dbGet(PENDING_KEY);
+  let pending: StateRootCommitment | null = stored ? JSON.parse(stored) : null;
+  const onChain = await getCommittedStateRoot();
+
+  if (pending && onChain.term >= pending.term) {
+    // Mined before the restart; anything else means the term was taken and we sign again
+    if (onChain.stateRoot === pending.stateRoot && onChain.signature.toLowerCase() === pending.signature.toLowerCase()) {
+      await recordCommitted(pending);
+      return;
+    }
+    pending = null;
+  }
+  // Signed before liabilities were part of the StateRoot message; its term is still free, so sign again
+  if (pending && !pending.liabilitiesRoot) pending = null;
+
+  if (!pending) {
+    // Roots and totals are read synchronously, so they describe the same committed transition
+    const stateRoot = toBytes32(getRoot());
+    const txRoot = toBytes32(getTxRoot());
+    const liabilities = getLiabilities();
+    const liabilitiesRoot = hashLiabilities(liabilities.map(entry => ({
+      token: entry.token as `0x${string}`,
+      sumRoot: toBytes32(entry.sumRoot),
+      total: BigInt(entry.total),
+    })));
+
+    const last = await getLastCommittedRoot();
+    if (last && last.stateRoot === stateRoot && last.txRoot === txRoot) return;
+
+    const term = onChain.term + 1;
+    const signature = await signStateRoot(stateRoot, txRoot, liabilitiesRoot, term);
+    pending = {
+      term,
+      stateRoot,
+      txRoot,
+      liabilitiesRoot,
+      liabilities,
+      signature,
+      status: 'signed',
+      createdAt: Date.now(),
+    };
+    await dbPut(PENDING_KEY, JSON.stringify(pending));
+  }
+
+  const txHash = await sendStateRoot({
+    stateRoot: pending.stateRoot,
+    term: pending.term,
+    signature: pending.signature,
+    liabilitiesRoot: pending.liabilitiesRoot as `0x${string}`,
+  });
+  await recordCommitted(pending, txHash);
+};
+
+const tick = async (): Promise<void> => {
+  if (publishing) return;
+  if (timer) clearTimeout(timer);
+  timer = null;
+  mutations = 0;
+
+  let delay = env.STATE_ROOT_PUBLISH_INTERVAL_MS;
+  publishing = publish()
+    .catch((error) => {
+      console.error('State root publication failed:', error);
+      delay = env.STATE_ROOT_RETRY_INTERVAL_MS;
+    })
+    .finally(() => {
+      publishing = null;
+    });
+  await publishing;
+
+  if (running) timer = setTimeout(tick, delay);
+};
+
+// Publish the state root every STATE_ROOT_PUBLISH_INTERVAL_MS, or sooner once the balance root
+// has changed STATE_ROOT_PUBLISH_AFTER_MUTATIONS times; requires the ROFL wallet
+export const startStateRootPublisher = (): void => {
+  if (!listening) {
+    listening = true;
+    onStateCommitted(() => {
+      const root = getRoot();
+      if (root === lastSeenRoot) return;
+      lastSeenRoot = root;
+
+      mutations++;
+      if (running && mutations >= env.STATE_ROOT_PUBLISH_AFTER_MUTATIONS) void tick();
+    });
+  }
+
+  running = true;
+  lastSeenRoot = getRoot();
+  void tick();
+};
+
+export const stopStateRootPublisher = (): void => {
+  running = false;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
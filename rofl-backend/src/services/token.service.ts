@@ -0,0 +1,58 @@
+import { createPublicClient, http, erc20Abi } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { env } from '../config/env';
+import { dbGet, dbPut } from './db.service';
+
+const TOKEN_DECIMALS_PREFIX = 'token:decimals:';
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+const NATIVE_TOKEN_DECIMALS = 18;
+
+const publicClient = createPublicClient({
+  chain: baseSepolia,
+  transport: http(env.BASE_SEPOLIA_RPC_URL || undefined),
+});
+
+// Decimals never change for a deployed token, so cache them in memory and in RocksDB
+const decimalsCache = new Map<string, number>();
+
+// Get the number of decimals for a token (used to convert between base units and display amounts)
+export const getTokenDecimals = async (token: string): Promise<number> => {
+  const tokenLower = token.toLowerCase();
+  if (tokenLower === NATIVE_TOKEN_ADDRESS) return NATIVE_TOKEN_DECIMALS;
+
+  const cached = decimalsCache.get(tokenLower);
+  if (cached !== undefined) return cached;
+
+  const dbKey = `${TOKEN_DECIMALS_PREFIX}${tokenLower}`;
+  const stored = await dbGet(dbKey);
+  if (stored !== null) {
+    const decimals = parseInt(stored, 10);
+    decimalsCache.set(tokenLower, decimals);
+    return decimals;
+  }
+
+  const decimals = await publicClient.readContract({
+    address: token as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'decimals',
+  });
+
+  decimalsCache.set(tokenLower, decimals);
+  await dbPut(dbKey, decimals.toString());
+  return decimals;
+};
+
+// Amount of token (base units) held by the Void contract
+export const getCustodyBalance = async (token: string): Promise<bigint> => {
+  const contract = env.VOID_CONTRACT_ADDRESS as `0x${string}`;
+  if (token.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+    return publicClient.getBalance({ address: contract });
+  }
+
+  return publicClient.readContract({
+    address: token as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [contract],
+  });
+};
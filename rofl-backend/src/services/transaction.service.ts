@@ -1,11 +1,20 @@
-import { SMT } from '@cedoor/smt';
 import { keccak256, toBytes, concat } from 'viem';
 import { TransactionProof, TransactionEntry } from '../types/transaction.types';
-import { dbGet, dbPut, dbGetAll } from './db.service';
+import { RecordLeaf } from '../types/integrity.types';
+import { dbGet, dbGetAll, dbBatch, DbOperation } from './db.service';
+import { runStateTransition, StateTransaction } from './state.service';
 import { getTxSecret } from './secret.service';
+import { getTokenDecimals } from './token.service';
+import { legacyToBaseUnits } from '../utils/amount.util';
+import { PersistentSMT } from '../utils/smt.util';
+import { env } from '../config/env';
 
-// In-memory SMT instance for transactions
-let txSmt: SMT;
+// SMT for transactions, backed by RocksDB; nodes are loaded lazily
+let txSmt: PersistentSMT;
+
+// Transaction amounts are stored in raw token base units; version 1 stored float-formatted decimal strings
+const LEDGER_VERSION_KEY = 'meta:tx-ledger-version';
+const LEDGER_VERSION = '2';
 
 // Normalize hex string (strip 0x, pad to 64 chars)
 const normalize = (hex: string): string => {
@@ -42,17 +51,55 @@ const hashTransactions = (transactions: TransactionEntry[]): string => {
 };
 
 // Initialize transaction service
-export const initializeTransactionService = async (): Promise<void> => {
-  txSmt = new SMT(hash);
+// readOnly writes nothing: the rows must already be migrated, and a tree that was never persisted stays empty
+export const initializeTransactionService = async ({ readOnly = false }: { readOnly?: boolean } = {}): Promise<void> => {
+  txSmt = new PersistentSMT('tx', hash, env.SMT_CACHE_SIZE);
+
+  if (readOnly) {
+    if ((await dbGet(LEDGER_VERSION_KEY)) !== LEDGER_VERSION) {
+      throw new Error('Transaction rows have not been migrated; start the server once before opening them read-only');
+    }
+    await txSmt.load();
+  } else {
+    // Convert legacy decimal amounts to base units before building the tree
+    await migrateLegacyTransactions();
 
-  // Load existing transactions from RocksDB
-  await loadTransactionsFromDatabase();
+    // Only the persisted root is read; trees created before nodes were persisted are imported once
+    if (!(await txSmt.load())) {
+      await loadTransactionsFromDatabase();
+    }
+  }
 
   console.log('Transaction service initialized with SMT');
   console.log('Transaction SMT Root:', getTxRoot());
 };
 
-// Load transactions from RocksDB and rebuild SMT
+// Rewrite version 1 transaction amounts (float decimal strings) as base-unit integers
+const migrateLegacyTransactions = async (): Promise<void> => {
+  if ((await dbGet(LEDGER_VERSION_KEY)) === LEDGER_VERSION) return;
+
+  const entries = await dbGetAll('txdata:');
+  const operations: DbOperation[] = [];
+  for (const entry of entries) {
+    const token = entry.key.split(':')[3];
+    const decimals = await getTokenDecimals(token);
+    const transactions: TransactionEntry[] = JSON.parse(entry.value);
+    const migrated = transactions.map(tx => ({
+      ...tx,
+      amount: (legacyToBaseUnits(tx.amount, decimals) ?? 0n).toString(),
+    }));
+    operations.push({ type: 'put', key: entry.key, value: JSON.stringify(migrated) });
+  }
+
+  // Written together with the version marker so a restart never converts a row twice
+  operations.push({ type: 'put', key: LEDGER_VERSION_KEY, value: LEDGER_VERSION });
+  await dbBatch(operations);
+  if (entries.length > 0) {
+    console.log(`Migrated ${entries.length} transaction entries to base units`);
+  }
+};
+
+// Import transaction rows into a fresh persistent SMT
 const loadTransactionsFromDatabase = async (): Promise<void> => {
   const entries = await dbGetAll('txdata:');
 
@@ -64,44 +111,41 @@ const loadTransactionsFromDatabase = async (): Promise<void> => {
   console.log(`Loading transaction data from database...`);
   let loadedCount = 0;
 
-  for (const entry of entries) {
-    // Key format: txdata:sender:receiver:token:type
-    const parts = entry.key.split(':');
-    const sender = parts[1];
-    const receiver = parts[2];
-    const token = parts[3];
-    const type = parts[4]; // 'sender' or 'receiver'
-
-    const wallet = type === 'sender' ? sender : receiver;
-    const userSecret = await getTxSecret(wallet);
-    if (!userSecret) {
-      console.warn(`Skipping transaction for ${wallet} - no secret found`);
-      continue;
-    }
+  // One transition: an interrupted import leaves no root behind and is simply redone
+  await runStateTransition(async (tx) => {
+    for (const entry of entries) {
+      // Key format: txdata:sender:receiver:token:type
+      const parts = entry.key.split(':');
+      const sender = parts[1];
+      const receiver = parts[2];
+      const token = parts[3];
+      const type = parts[4]; // 'sender' or 'receiver'
+
+      const wallet = type === 'sender' ? sender : receiver;
+      const userSecret = await getTxSecret(wallet);
+      if (!userSecret) {
+        console.warn(`Skipping transaction for ${wallet} - no secret found`);
+        continue;
+      }
 
-    const transactions: TransactionEntry[] = JSON.parse(entry.value);
-    const key = generateTxKey(sender, receiver, token, userSecret);
-    const valueHash = hashTransactions(transactions);
-
-    // Check if key exists and update or add accordingly
-    const exists = txSmt.get(key);
-    if (exists) {
-      txSmt.update(key, valueHash);
-    } else {
-      txSmt.add(key, valueHash);
+      const transactions: TransactionEntry[] = JSON.parse(entry.value);
+      const key = generateTxKey(sender, receiver, token, userSecret);
+      await txSmt.set(key, hashTransactions(transactions), tx.changesFor(txSmt));
+      loadedCount++;
     }
-    loadedCount++;
-  }
+  });
 
   console.log(`Loaded ${loadedCount} transaction entries from database`);
 };
 
-// Add transaction to SMT (updates existing array or creates new)
+// Add transaction to SMT (updates existing array or creates new); amount is in base units.
+// Staged in tx and written when the transition commits.
 export const addTransaction = async (
   sender: string,
   receiver: string,
   token: string,
-  amount: string
+  amount: bigint,
+  tx: StateTransaction
 ): Promise<{ timestamp: number }> => {
   const timestamp = Date.now();
 
@@ -120,15 +164,15 @@ export const addTransaction = async (
     sender,
     receiver,
     token,
-    amount,
+    amount: amount.toString(),
     timestamp
   };
 
   // Update sender's leaf
-  await updateTxLeaf(sender, receiver, token, 'sender', senderSecret, newTx);
+  await updateTxLeaf(sender, receiver, token, 'sender', senderSecret, newTx, tx);
 
   // Update receiver's leaf
-  await updateTxLeaf(sender, receiver, token, 'receiver', receiverSecret, newTx);
+  await updateTxLeaf(sender, receiver, token, 'receiver', receiverSecret, newTx, tx);
 
   return { timestamp };
 };
@@ -140,12 +184,13 @@ const updateTxLeaf = async (
   token: string,
   type: 'sender' | 'receiver',
   userSecret: string,
-  newTx: TransactionEntry
+  newTx: TransactionEntry,
+  tx: StateTransaction
 ): Promise<void> => {
   const dbKey = `txdata:${sender.toLowerCase()}:${receiver.toLowerCase()}:${token.toLowerCase()}:${type}`;
 
   // Get existing transactions
-  const existing = await dbGet(dbKey);
+  const existing = await tx.get(dbKey);
   const transactions: TransactionEntry[] = existing ? JSON.parse(existing) : [];
 
   // Add new transaction
@@ -156,15 +201,40 @@ const updateTxLeaf = async (
   const valueHash = hashTransactions(transactions);
 
   // Update or add to SMT
-  const existingValue = txSmt.get(smtKey);
-  if (existingValue) {
-    txSmt.update(smtKey, valueHash);
-  } else {
-    txSmt.add(smtKey, valueHash);
-  }
+  await txSmt.set(smtKey, valueHash, tx.changesFor(txSmt));
+
+  tx.put(dbKey, JSON.stringify(transactions));
+};
+
+// Move every transaction leaf owned by the wallet from its key under oldSecret to its key under newSecret;
+// the old keys are removed. Returns the number of leaves moved.
+export const rekeyTxLeaves = async (
+  wallet: string,
+  oldSecret: string,
+  newSecret: string,
+  tx: StateTransaction
+): Promise<number> => {
+  const walletLower = wallet.toLowerCase();
+  const changes = tx.changesFor(txSmt);
+  let moved = 0;
+
+  for (const entry of await dbGetAll('txdata:')) {
+    const [, sender, receiver, token, type] = entry.key.split(':');
+    if ((type === 'sender' ? sender : receiver) !== walletLower) continue;
 
-  // Persist to RocksDB
-  await dbPut(dbKey, JSON.stringify(transactions));
+    const oldKey = generateTxKey(sender, receiver, token, oldSecret);
+    const value = await txSmt.get(oldKey, changes);
+    if (value === undefined) continue;
+
+    // The other party's leaf for the pair has the same key if it uses the same secret; that leaf stays
+    const counterpartSecret = await getTxSecret(type === 'sender' ? receiver : sender);
+    if (counterpartSecret?.toLowerCase() !== oldSecret.toLowerCase()) {
+      await txSmt.delete(oldKey, changes);
+    }
+    await txSmt.set(generateTxKey(sender, receiver, token, newSecret), value, changes);
+    moved++;
+  }
+  return moved;
 };
 
 // Get transaction history for a wallet
@@ -217,8 +287,8 @@ export const getTxProof = async (
   }
 
   const key = generateTxKey(sender, receiver, token, userSecret);
-  const proof = txSmt.createProof(key);
-  const value = txSmt.get(key);
+  const proof = await txSmt.createProof(key);
+  const value = proof.entry[1];
 
   return {
     root: normalize(String(proof.root)),
@@ -233,8 +303,24 @@ export const getTxRoot = (): string => {
   return String(txSmt.root);
 };
 
+export const getTxTree = (): PersistentSMT => txSmt;
+
+// Leaves the transaction tree should hold according to the txdata rows (one per party of each pair)
+export const getTxRecordLeaves = async (): Promise<RecordLeaf[]> => {
+  const entries = await dbGetAll('txdata:');
+  const leaves: RecordLeaf[] = [];
+  for (const entry of entries) {
+    const [, sender, receiver, token, type] = entry.key.split(':');
+    const userSecret = await getTxSecret(type === 'sender' ? sender : receiver);
+    if (!userSecret) continue;
+    const transactions: TransactionEntry[] = JSON.parse(entry.value);
+    leaves.push({ key: generateTxKey(sender, receiver, token, userSecret), value: hashTransactions(transactions), record: entry.key });
+  }
+  return leaves;
+};
+
 // Verify a transaction proof
-export const verifyTxProof = (proof: TransactionProof): boolean => {
-  const smtProof = txSmt.createProof(proof.key);
-  return normalize(String(smtProof.root)) === proof.root;
+export const verifyTxProof = async (proof: TransactionProof): Promise<boolean> => {
+  const smtProof = await txSmt.createProof(proof.key);
+  return normalize(smtProof.root) === proof.root;
 };
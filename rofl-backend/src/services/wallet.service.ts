@@ -1,23 +1,126 @@
 import { z } from 'zod';
 import { verifyWalletSignature } from '../utils/wallet.util';
-import { TransferRequest, TransferResult } from '../types/wallet.types';
+import {
+  TransferRequest,
+  TransferResult,
+  TransferDomain,
+  UnclaimedTransfer,
+  WithdrawRequest,
+  WithdrawResult,
+} from '../types/wallet.types';
 import { AppError } from '../api/middlewares/errorHandler';
-import { getBalance, updateBalance, getRoot } from './balance.service';
+import { getBalance, getRoot } from './balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from './journal.service';
 import { addTransaction, getTxRoot } from './transaction.service';
-import { hasAllSecrets } from './secret.service';
+import { getBalanceSecret, hasAllSecrets } from './secret.service';
+import { getTokenDecimals } from './token.service';
+import { getNonce, consumeNonce } from './nonce.service';
+import { getRoflWalletAddress } from './rofl.service';
+import { createWithdrawal, wakeWithdrawalWorker } from './withdrawal.service';
+import { runStateTransition } from './state.service';
+import { dbGetAll } from './db.service';
+import { isDecimalAmount, toBaseUnits } from '../utils/amount.util';
 import { env } from '../config/env';
 
 const transferSchema = z.object({
   sendTransaction: z.object({
     from: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid from address'),
     to: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid to address'),
-    token: z.string().min(1, 'Token is required'),
-    amount: z.string().min(1, 'Amount is required'),
+    token: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid token address'),
+    amount: z.string().min(1, 'Amount is required').refine(isDecimalAmount, 'Invalid amount format'),
+    nonce: z.number().int().nonnegative('Invalid nonce'),
+    deadline: z.number().int().positive('Invalid deadline'),
   }),
   signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature format'),
 });
 
+const withdrawSchema = z.object({
+  withdrawal: z.object({
+    wallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address'),
+    token: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid token address'),
+    amount: z.string().min(1, 'Amount is required').refine(isDecimalAmount, 'Invalid amount format'),
+    nonce: z.number().int().nonnegative('Invalid nonce'),
+    deadline: z.number().int().positive('Invalid deadline'),
+  }),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature format'),
+});
+
+// transfer:unclaimed:<receiver>:<entryId> -> UnclaimedTransfer
+const UNCLAIMED_PREFIX = 'transfer:unclaimed:';
+
+// Signed requests may not be valid for longer than this
+const MAX_DEADLINE_WINDOW_SECONDS = 60 * 60;
+
+// Reject expired signatures and deadlines that would keep a signature usable for too long
+const checkDeadline = (deadline: number): void => {
+  const now = Math.floor(Date.now() / 1000);
+  if (deadline < now) {
+    throw new AppError('Signature has expired', 400);
+  }
+
+  if (deadline > now + MAX_DEADLINE_WINDOW_SECONDS) {
+    throw new AppError('Deadline is too far in the future', 400);
+  }
+};
+
+// Convert a decimal request amount to positive base units
+const parseAmount = async (token: string, amount: string): Promise<bigint> => {
+  const decimals = await getTokenDecimals(token);
+  const raw = toBaseUnits(amount, decimals);
+
+  if (raw === null) {
+    throw new AppError(`Amount supports at most ${decimals} decimal places`, 400);
+  }
+
+  if (raw === 0n) {
+    throw new AppError('Amount must be greater than 0', 400);
+  }
+
+  return raw;
+};
+
+// Credit every transfer held for a wallet that now has a balance secret; returns how many were credited
+// Entries are listed inside the transition, so a transfer that parked one just before it is seen
+export const releaseUnclaimedTransfers = async (wallet: string): Promise<number> =>
+  runStateTransition(async (tx) => {
+    if (!(await getBalanceSecret(wallet, tx))) return 0;
+
+    const entries = await dbGetAll(`${UNCLAIMED_PREFIX}${wallet.toLowerCase()}:`);
+    let released = 0;
+    for (const entry of entries) {
+      const unclaimed: UnclaimedTransfer = JSON.parse(entry.value);
+      tx.del(entry.key);
+
+      await postEntry(tx, {
+        type: 'claim',
+        token: unclaimed.token,
+        postings: [
+          { account: SYSTEM_ACCOUNTS.unclaimed, amount: -BigInt(unclaimed.amount) },
+          { account: unclaimed.to, amount: BigInt(unclaimed.amount) },
+        ],
+        reference: unclaimed.entryId,
+      });
+
+      // History needs both parties' tx secrets; the receiver may only have set its balance secret so far
+      try {
+        await addTransaction(unclaimed.from, unclaimed.to, unclaimed.token, BigInt(unclaimed.amount), tx);
+      } catch (error) {
+        console.warn(`Unclaimed transfer ${unclaimed.entryId}: could not add to tx history:`, error);
+      }
+      released++;
+    }
+    return released;
+  });
+
 export class WalletService {
+  async getTransferDomain(wallet: string): Promise<TransferDomain> {
+    return {
+      nonce: await getNonce(wallet),
+      chainId: env.CHAIN_ID,
+      contract: env.VOID_CONTRACT_ADDRESS,
+    };
+  }
+
   async transfer(body: TransferRequest): Promise<TransferResult> {
     const validated = transferSchema.parse(body);
     const { sendTransaction, signature } = validated;
@@ -26,11 +129,13 @@ export class WalletService {
       throw new AppError('Cannot transfer to yourself', 400);
     }
 
-    const message = JSON.stringify(sendTransaction);
+    checkDeadline(sendTransaction.deadline);
+
     const result = await verifyWalletSignature({
       walletAddress: sendTransaction.from,
       signature,
-      message,
+      primaryType: 'Transfer',
+      message: sendTransaction,
     });
 
     if (!result.isValid) {
@@ -43,37 +148,61 @@ export class WalletService {
       throw new AppError('Sender has not set all required secrets', 400);
     }
 
-    const receiverHasSecrets = await hasAllSecrets(sendTransaction.to);
-    
-    if (!env.SKIP_RECEIVER_SECRET_CHECK && !receiverHasSecrets) {
-      throw new AppError('Receiver has not set all required secrets', 400);
-    }
+    const amount = await parseAmount(sendTransaction.token, sendTransaction.amount);
 
-    const senderBalance = await getBalance(sendTransaction.from, sendTransaction.token);
-    const amount = parseFloat(sendTransaction.amount);
-    const currentBalance = parseFloat(senderBalance);
+    // Nonce, both balances and history are committed together or not at all.
+    // The balance and the receiver's secrets are read inside the transition: transitions run one at a
+    // time, so two concurrent requests cannot both spend the same funds, and a transfer to a receiver
+    // that is onboarding is parked before releaseUnclaimedTransfers runs or credited after it.
+    await runStateTransition(async (tx) => {
+      const receiverHasSecrets = await hasAllSecrets(sendTransaction.to, tx);
 
-    if (currentBalance < amount) {
-      throw new AppError('Insufficient balance', 400);
-    }
+      if (!env.SKIP_RECEIVER_SECRET_CHECK && !receiverHasSecrets) {
+        throw new AppError('Receiver has not set all required secrets', 400);
+      }
 
-    const newSenderBalance = (currentBalance - amount).toString();
-    await updateBalance(sendTransaction.from, sendTransaction.token, newSenderBalance);
+      const senderBalance = await getBalance(sendTransaction.from, sendTransaction.token, tx);
 
-    if (receiverHasSecrets) {
-      const receiverBalance = await getBalance(sendTransaction.to, sendTransaction.token);
-      const newReceiverBalance = (parseFloat(receiverBalance) + amount).toString();
-      await updateBalance(sendTransaction.to, sendTransaction.token, newReceiverBalance);
-    }
+      if (senderBalance < amount) {
+        throw new AppError('Insufficient balance', 400);
+      }
 
-    if (receiverHasSecrets) {
-      await addTransaction(
-        sendTransaction.from,
-        sendTransaction.to,
-        sendTransaction.token,
-        sendTransaction.amount
-      );
-    }
+      // Consume the nonce so the same signed body cannot be replayed
+      if (!(await consumeNonce(sendTransaction.from, sendTransaction.nonce, tx))) {
+        throw new AppError('Invalid or already used nonce', 409);
+      }
+
+      // A receiver without secrets cannot hold a balance leaf; the amount is parked in system:unclaimed
+      // and released to it by releaseUnclaimedTransfers once it sets a balance secret
+      const entry = await postEntry(tx, {
+        type: 'transfer',
+        token: sendTransaction.token,
+        postings: [
+          { account: sendTransaction.from, amount: -amount },
+          { account: receiverHasSecrets ? sendTransaction.to : SYSTEM_ACCOUNTS.unclaimed, amount },
+        ],
+      });
+
+      if (!receiverHasSecrets) {
+        const unclaimed: UnclaimedTransfer = {
+          entryId: entry.id,
+          from: sendTransaction.from.toLowerCase(),
+          to: sendTransaction.to.toLowerCase(),
+          token: sendTransaction.token.toLowerCase(),
+          amount: amount.toString(),
+          createdAt: entry.createdAt,
+        };
+        tx.put(`${UNCLAIMED_PREFIX}${unclaimed.to}:${entry.id}`, JSON.stringify(unclaimed));
+      } else {
+        await addTransaction(
+          sendTransaction.from,
+          sendTransaction.to,
+          sendTransaction.token,
+          amount,
+          tx
+        );
+      }
+    });
 
     const txHash = getRoot();
 
@@ -85,4 +214,57 @@ export class WalletService {
       amount: sendTransaction.amount,
     };
   }
+
+  async withdraw(wallet: string, body: WithdrawRequest): Promise<WithdrawResult> {
+    const validated = withdrawSchema.parse(body);
+    const { withdrawal, signature } = validated;
+
+    if (withdrawal.wallet.toLowerCase() !== wallet.toLowerCase()) {
+      throw new AppError('Withdrawal must be signed by the authenticated wallet', 403);
+    }
+
+    checkDeadline(withdrawal.deadline);
+
+    const result = await verifyWalletSignature({
+      walletAddress: withdrawal.wallet,
+      signature,
+      primaryType: 'Withdraw',
+      message: withdrawal,
+    });
+
+    if (!result.isValid) {
+      throw new AppError(result.error || 'Invalid signature', 401);
+    }
+
+    const amount = await parseAmount(withdrawal.token, withdrawal.amount);
+
+    // Fail fast instead of debiting a withdrawal nothing can send
+    getRoflWalletAddress();
+
+    // Checked and recorded in one transition so concurrent requests cannot overdraw.
+    // The withdrawal worker then debits, broadcasts and confirms it (see withdrawal.service).
+    const record = await runStateTransition(async (tx) => {
+      const currentBalance = await getBalance(withdrawal.wallet, withdrawal.token, tx);
+
+      if (currentBalance < amount) {
+        throw new AppError('Insufficient balance', 400);
+      }
+
+      if (!(await consumeNonce(withdrawal.wallet, withdrawal.nonce, tx))) {
+        throw new AppError('Invalid or already used nonce', 409);
+      }
+
+      return createWithdrawal(withdrawal.wallet, withdrawal.token, amount, tx);
+    });
+
+    wakeWithdrawalWorker();
+
+    return {
+      id: record.id,
+      status: record.status,
+      wallet: withdrawal.wallet,
+      token: withdrawal.token,
+      amount: withdrawal.amount,
+    };
+  }
 }
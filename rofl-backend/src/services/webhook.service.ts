@@ -1,9 +1,10 @@
 import { createHmac } from 'crypto';
 import { env } from '../config/env';
-import { setBalance, getBalance, updateBalance } from './balance.service';
-import { addTransaction } from './transaction.service';
-import { hasBalanceSecret } from './secret.service';
-import { decodeEventLog, createPublicClient, http, erc20Abi, parseAbiItem } from 'viem';
+import { creditDeposit, getLegacyMarkerScan, hasLegacyDepositMarkers, markLegacyDeposits } from './deposit.service';
+import { getWalletsWithBalanceSecret, hasBalanceSecret } from './secret.service';
+import { isIndexerRunning, wakeIndexer } from './indexer.service';
+import { decodeEventLog, createPublicClient, http, parseAbiItem } from 'viem';
+import { LegacyMarkerScan } from '../types/deposit.types';
 import { baseSepolia } from 'viem/chains';
 
 // RPC: use env if set (Alchemy/Infura); fallback for when env RPC fails (e.g. Base Sepolia not enabled)
@@ -62,17 +63,28 @@ export const processAlchemyWebhook = async (payload: any): Promise<void> => {
     return;
   }
 
+  // The indexer credits deposits once they have INDEXER_CONFIRMATIONS and reverts them on reorgs;
+  // crediting here as well would skip both, so the webhook only makes it poll now
+  if (isIndexerRunning()) {
+    wakeIndexer();
+    return;
+  }
+
   for (const log of logs) {
-    await processLog(log);
+    await processLog(log, Number(block.number ?? log.blockNumber));
   }
 };
 
 // Process a single log entry
-const processLog = async (log: any): Promise<void> => {
+const processLog = async (log: any, blockNumber: number): Promise<void> => {
   // GraphQL format: account.address instead of address
   const address = log.account?.address || log.address;
   const { topics, data } = log;
 
+  // GraphQL format: transaction.hash and index identify the log
+  const txHash: string | undefined = log.transaction?.hash || log.transactionHash;
+  const logIndex = Number(log.index ?? log.logIndex);
+
   // Verify contract address
   if (address.toLowerCase() !== env.VOID_CONTRACT_ADDRESS.toLowerCase()) {
     console.log(`Ignoring event from unknown contract: ${address}`);
@@ -88,6 +100,10 @@ const processLog = async (log: any): Promise<void> => {
     return;
   }
 
+  if (!txHash || !Number.isInteger(logIndex)) {
+    throw new Error('Deposited log is missing transaction hash or log index');
+  }
+
   try {
     // Decode the event
     const decoded = decodeEventLog({
@@ -109,39 +125,20 @@ const processLog = async (log: any): Promise<void> => {
 
     console.log(`Processing deposit: user=${user}, amount=${amount.toString()}, token=${tokenAddress}`);
 
-    // Check if user has set their balance secret
-    const hasSecret = await hasBalanceSecret(user);
-    if (!hasSecret) {
-      console.warn(`User ${user} has not set balance secret, deposit will be processed when they do`);
-      // TODO: Queue deposit for later processing
-      return;
-    }
-
-    // Get token decimals and normalize amount
-    const decimals = await publicClient.readContract({
-      address: tokenAddress as `0x${string}`,
-      abi: erc20Abi,
-      functionName: 'decimals'
+    // Retried or duplicated deliveries carry the same log and are skipped;
+    // deposits from users without a balance secret are queued until they set one
+    const outcome = await creditDeposit({
+      txHash,
+      logIndex,
+      user,
+      token: tokenAddress,
+      amount,
+      blockNumber: Number.isInteger(blockNumber) ? blockNumber : undefined,
     });
-    const amountDecimal = Number(amount) / Math.pow(10, decimals);
-
-    console.log(`Token decimals: ${decimals}, normalized amount: ${amountDecimal}`);
-
-    // Get current balance and add deposit
-    const currentBalance = await getBalance(user, tokenAddress);
-    const newBalance = (parseFloat(currentBalance) + amountDecimal).toString();
 
-    // Update balance
-    await updateBalance(user, tokenAddress, newBalance);
-
-    // Transaction history: contract has no tx secret so addTransaction would throw; skip for deposits
-    try {
-      await addTransaction(env.VOID_CONTRACT_ADDRESS, user, tokenAddress, amountDecimal.toString());
-    } catch (txErr) {
-      console.warn('Deposit: could not add to tx history (contract has no tx secret):', txErr);
+    if (outcome === 'duplicate') {
+      console.log(`Deposit ${txHash}:${logIndex} already credited, skipping`);
     }
-
-    console.log(`Deposit processed: ${user} now has ${newBalance} of ${tokenAddress}`);
   } catch (error) {
     console.error('Error processing deposit event:', error);
     throw error;
@@ -152,49 +149,69 @@ const processLog = async (log: any): Promise<void> => {
 const BACKFILL_BLOCK_RANGE = 400_000n;
 const GETLOGS_CHUNK = 2_000n;
 
-type DepositLogArgs = { args: { amount: bigint; tokenAddress: string } };
+const DEPOSITED_EVENT = parseAbiItem('event Deposited(address indexed user, uint256 amount, address tokenAddress)');
+
+type DepositLog = {
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  args: { user: string; amount: bigint; tokenAddress: string };
+};
+
+// Deposited logs between two blocks, optionally only one wallet's
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getDepositLogs = async (client: any, fromBlock: bigint, toBlock: bigint, wallet?: string): Promise<DepositLog[]> => {
+  const allLogs: DepositLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += GETLOGS_CHUNK) {
+    const end = start + GETLOGS_CHUNK - 1n > toBlock ? toBlock : start + GETLOGS_CHUNK - 1n;
+    const chunk = (await client.getLogs({
+      address: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+      event: DEPOSITED_EVENT,
+      args: wallet ? { user: wallet as `0x${string}` } : undefined,
+      fromBlock: start,
+      toBlock: end,
+    })) as DepositLog[];
+    allLogs.push(...chunk);
+  }
+  return allLogs;
+};
+
+// First block of the BACKFILL_BLOCK_RANGE blocks up to currentBlock
+const backfillStart = (currentBlock: bigint): bigint => {
+  return currentBlock > BACKFILL_BLOCK_RANGE ? currentBlock - BACKFILL_BLOCK_RANGE : 0n;
+};
+
+// Deposited logs from the last BACKFILL_BLOCK_RANGE blocks, optionally only one wallet's
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const getRecentDepositLogs = async (client: any, wallet?: string): Promise<DepositLog[]> => {
+  const currentBlock: bigint = await client.getBlockNumber();
+  return getDepositLogs(client, backfillStart(currentBlock), currentBlock, wallet);
+};
+
+const toDeposit = (log: DepositLog, user: string) => ({
+  txHash: log.transactionHash,
+  logIndex: log.logIndex,
+  user,
+  token: (log.args.tokenAddress || '').toLowerCase(),
+  amount: log.args.amount,
+  blockNumber: Number(log.blockNumber),
+});
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const runBackfillWithClient = async (wallet: string, client: any): Promise<boolean> => {
   try {
-    const contractAddress = env.VOID_CONTRACT_ADDRESS as `0x${string}`;
-    const event = parseAbiItem('event Deposited(address indexed user, uint256 amount, address tokenAddress)');
-    const args = { user: wallet as `0x${string}` };
-
-    const currentBlock = await client.getBlockNumber();
-    const fromBlock = currentBlock > BACKFILL_BLOCK_RANGE ? currentBlock - BACKFILL_BLOCK_RANGE : 0n;
-
-    const allLogs: DepositLogArgs[] = [];
-    for (let start = fromBlock; start <= currentBlock; start += GETLOGS_CHUNK) {
-      const toBlock = start + GETLOGS_CHUNK - 1n > currentBlock ? currentBlock : start + GETLOGS_CHUNK - 1n;
-      const chunk = (await client.getLogs({
-        address: contractAddress,
-        event,
-        args,
-        fromBlock: start,
-        toBlock,
-      })) as DepositLogArgs[];
-      allLogs.push(...chunk);
-    }
+    const allLogs = await getRecentDepositLogs(client, wallet);
 
-    if (allLogs.length === 0) return true;
-
-    const totalsByToken: Record<string, number> = {};
+    // Credit each log individually; logs already credited by the webhook are skipped,
+    // so balances built from later transfers are never overwritten
+    let creditedCount = 0;
     for (const log of allLogs) {
-      const { amount, tokenAddress } = log.args;
-      const token = (tokenAddress || '').toLowerCase();
-      const decimals = await client.readContract({
-        address: tokenAddress as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'decimals',
-      });
-      totalsByToken[token] = (totalsByToken[token] ?? 0) + Number(amount) / Math.pow(10, decimals);
-    }
-    for (const [token, total] of Object.entries(totalsByToken)) {
-      if (total > 0) await setBalance(wallet, token, total.toString());
+      const outcome = await creditDeposit(toDeposit(log, wallet));
+      if (outcome === 'credited') creditedCount++;
     }
-    if (Object.keys(totalsByToken).length > 0) {
-      console.log(`Backfill: ${wallet}`, totalsByToken);
+
+    if (creditedCount > 0) {
+      console.log(`Backfill: credited ${creditedCount} deposits for ${wallet}`);
     }
     return true;
   } catch {
@@ -205,6 +222,92 @@ const runBackfillWithClient = async (wallet: string, client: any): Promise<boole
 /** Backfill balances from chain when user set secret after depositing. Call when GET /api/balance would return empty. */
 export const backfillDepositsForWallet = async (wallet: string): Promise<void> => {
   if (!(await hasBalanceSecret(wallet))) return;
+  // Nothing is credited until the marker scan has recorded what balances already include
+  if (!(await hasLegacyDepositMarkers())) return;
   const ok = await runBackfillWithClient(wallet, publicClient) || await runBackfillWithClient(wallet, fallbackClient);
   if (!ok) console.warn('Backfill: RPC failed (set BASE_SEPOLIA_RPC_URL with Base Sepolia enabled, or retry later).');
 };
+
+// Read with the configured RPC, or the public one if that fails
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const readChain = async <T>(read: (client: any) => Promise<T>): Promise<T> => {
+  try {
+    return await read(publicClient);
+  } catch {
+    return read(fallbackClient);
+  }
+};
+
+let markerTimer: NodeJS.Timeout | null = null;
+let markerScanRunning = false;
+
+// Scan the last BACKFILL_BLOCK_RANGE blocks, as of the first attempt, one GETLOGS_CHUNK at a time. Each chunk's
+// markers are written with the scan's progress, so a failed or interrupted scan resumes after the last chunk.
+const scanLegacyDeposits = async (): Promise<void> => {
+  let scan = await getLegacyMarkerScan();
+  if (!scan) {
+    const contract = env.VOID_CONTRACT_ADDRESS.toLowerCase();
+    const wallets = (await getWalletsWithBalanceSecret()).filter(wallet => wallet !== contract);
+
+    // A ledger without wallets has credited nothing, so there is nothing to scan
+    if (wallets.length === 0) {
+      await markLegacyDeposits([], null);
+      return;
+    }
+
+    const currentBlock: bigint = await readChain(client => client.getBlockNumber());
+    const fromBlock = Number(backfillStart(currentBlock));
+    scan = { fromBlock, toBlock: Number(currentBlock), nextBlock: fromBlock, wallets };
+    await markLegacyDeposits([], scan);
+    console.log(`Deposit marker scan started over blocks ${scan.fromBlock}-${scan.toBlock}`);
+  }
+
+  while (markerScanRunning && scan) {
+    const { nextBlock, toBlock, wallets }: LegacyMarkerScan = scan;
+    const end = Math.min(nextBlock + Number(GETLOGS_CHUNK) - 1, toBlock);
+    const logs = await readChain(client => getDepositLogs(client, BigInt(nextBlock), BigInt(end)));
+
+    const deposits = logs
+      .filter(log => wallets.includes(log.args.user.toLowerCase()))
+      .map(log => toDeposit(log, log.args.user));
+    const next: LegacyMarkerScan | null = end < toBlock ? { ...scan, nextBlock: end + 1 } : null;
+    const marked = await markLegacyDeposits(deposits, next);
+    if (marked > 0) {
+      console.log(`Recorded ${marked} deposits credited before processed markers existed`);
+    }
+    scan = next;
+  }
+
+  if (!scan) console.log('Deposit marker scan finished');
+};
+
+/**
+ * Give deposits credited before processed markers existed a marker, so the backfill and indexer do not
+ * credit them again. Balances of wallets that already had a balance secret include every earlier deposit
+ * (the webhook credited it, or the old backfill summed it); other wallets' deposits were never credited
+ * and are left to be queued. Runs in the background until it finishes, retrying every
+ * DEPOSIT_MARKERS_RETRY_INTERVAL_MS if the chain cannot be read; no deposit is credited until then.
+ */
+export const startDepositMarkerScan = (): void => {
+  const tick = async () => {
+    try {
+      if (!(await hasLegacyDepositMarkers())) await scanLegacyDeposits();
+      if (await hasLegacyDepositMarkers()) {
+        markerScanRunning = false;
+        return;
+      }
+    } catch (error) {
+      console.error('Deposit marker scan failed, will retry:', error);
+    }
+    if (markerScanRunning) markerTimer = setTimeout(tick, env.DEPOSIT_MARKERS_RETRY_INTERVAL_MS);
+  };
+
+  markerScanRunning = true;
+  void tick();
+};
+
+export const stopDepositMarkerScan = (): void => {
+  markerScanRunning = false;
+  if (markerTimer) clearTimeout(markerTimer);
+  markerTimer = null;
+};
@@ -0,0 +1,292 @@
+import { randomUUID } from 'crypto';
+import { WithdrawalRecord, WithdrawalStatus } from '../types/withdrawal.types';
+import { getBalance } from './balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from './journal.service';
+import { addTransaction } from './transaction.service';
+import { runStateTransition, StateTransaction } from './state.service';
+import { dbGet, dbGetAll } from './db.service';
+import {
+  signWithdrawal,
+  broadcastTransaction,
+  getTransactionStatus,
+  getRoflTransactionCount,
+  getChainHead,
+} from './rofl.service';
+import { env } from '../config/env';
+
+// withdrawal:record:<id> -> WithdrawalRecord
+const RECORD_PREFIX = 'withdrawal:record:';
+// withdrawal:active:<id> -> '' for records the worker still has to advance
+const ACTIVE_PREFIX = 'withdrawal:active:';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let processing: Promise<void> | null = null;
+
+const isFinished = (record: WithdrawalRecord): boolean => {
+  return record.status === 'confirmed' || record.status === 'refunded' || (record.status === 'failed' && !record.debited);
+};
+
+const stageRecord = (record: WithdrawalRecord, tx: StateTransaction): void => {
+  tx.put(`${RECORD_PREFIX}${record.id}`, JSON.stringify(record));
+  if (isFinished(record)) {
+    tx.del(`${ACTIVE_PREFIX}${record.id}`);
+  } else {
+    tx.put(`${ACTIVE_PREFIX}${record.id}`, '');
+  }
+};
+
+const saveRecord = async (record: WithdrawalRecord): Promise<void> => {
+  await runStateTransition(async (tx) => stageRecord(record, tx));
+};
+
+const withStatus = (record: WithdrawalRecord, status: WithdrawalStatus, changes: Partial<WithdrawalRecord> = {}): WithdrawalRecord => {
+  return { ...record, ...changes, status, updatedAt: Date.now() };
+};
+
+// Record a new withdrawal request in tx; the worker debits and broadcasts it
+export const createWithdrawal = (wallet: string, token: string, amount: bigint, tx: StateTransaction): WithdrawalRecord => {
+  const now = Date.now();
+  const record: WithdrawalRecord = {
+    id: randomUUID(),
+    wallet,
+    token,
+    amount: amount.toString(),
+    status: 'requested',
+    debited: false,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  stageRecord(record, tx);
+  return record;
+};
+
+export const getWithdrawal = async (id: string): Promise<WithdrawalRecord | null> => {
+  const stored = await dbGet(`${RECORD_PREFIX}${id}`);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const getAllWithdrawals = async (): Promise<WithdrawalRecord[]> => {
+  const entries = await dbGetAll(RECORD_PREFIX);
+  return entries.map((entry) => JSON.parse(entry.value));
+};
+
+// requested -> debited, or failed if the balance no longer covers the amount
+const debit = async (record: WithdrawalRecord): Promise<WithdrawalRecord> => {
+  return runStateTransition(async (tx) => {
+    const amount = BigInt(record.amount);
+    const balance = await getBalance(record.wallet, record.token, tx);
+
+    const next = balance < amount
+      ? withStatus(record, 'failed', { error: 'Insufficient balance' })
+      : withStatus(record, 'debited', { debited: true });
+
+    if (next.debited) {
+      await postEntry(tx, {
+        type: 'withdrawal',
+        token: record.token,
+        postings: [
+          { account: record.wallet, amount: -amount },
+          { account: SYSTEM_ACCOUNTS.withdrawals, amount },
+        ],
+        reference: record.id,
+      });
+    }
+    stageRecord(next, tx);
+    return next;
+  });
+};
+
+// debited -> broadcast. The signed transaction is stored before it is sent, so a crash
+// can only lead to rebroadcasting the same transaction, never to a second withdrawal.
+const broadcast = async (record: WithdrawalRecord): Promise<WithdrawalRecord> => {
+  let next: WithdrawalRecord;
+  try {
+    const signed = await signWithdrawal(record.wallet, BigInt(record.amount), record.token);
+    next = withStatus(record, 'broadcast', {
+      txHash: signed.hash,
+      serializedTx: signed.serialized,
+      chainNonce: signed.nonce,
+      error: undefined,
+    });
+  } catch (error) {
+    const attempts = record.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    next = attempts >= env.WITHDRAWAL_MAX_ATTEMPTS
+      ? withStatus(record, 'failed', { attempts, error: message })
+      : { ...record, attempts, error: message, updatedAt: Date.now() };
+    await saveRecord(next);
+    return next;
+  }
+
+  await saveRecord(next);
+  await rebroadcast(next);
+  return next;
+};
+
+const rebroadcast = async (record: WithdrawalRecord): Promise<void> => {
+  try {
+    await broadcastTransaction(record.serializedTx as `0x${string}`);
+  } catch (error) {
+    // "already known" and similar; the receipt check decides what happened
+    console.warn(`Withdrawal ${record.id}: broadcast failed:`, error instanceof Error ? error.message : error);
+  }
+};
+
+// broadcast -> confirmed or failed once the transaction is mined or replaced
+const confirm = async (record: WithdrawalRecord): Promise<WithdrawalRecord> => {
+  const txHash = record.txHash as `0x${string}`;
+
+  // Read the account nonce before the receipt: if the nonce is used and our receipt is
+  // still missing afterwards, another transaction took the nonce and ours can never be mined
+  const minedCount = await getRoflTransactionCount();
+  const status = await getTransactionStatus(txHash);
+
+  if (status === null) {
+    if (record.chainNonce !== undefined && minedCount > record.chainNonce) {
+      // A lagging or load-balanced RPC can report the nonce as used before it serves our receipt, and
+      // refunding a withdrawal that was paid pays it twice: the receipt has to stay missing for
+      // WITHDRAWAL_DROP_CONFIRMATIONS blocks before the transaction counts as dropped
+      const head = await getChainHead();
+      if (record.nonceUsedAtBlock === undefined) {
+        const next = { ...record, nonceUsedAtBlock: head, updatedAt: Date.now() };
+        await saveRecord(next);
+        return next;
+      }
+      if (head - record.nonceUsedAtBlock < env.WITHDRAWAL_DROP_CONFIRMATIONS) {
+        return record;
+      }
+
+      const next = withStatus(record, 'failed', { error: 'Transaction was dropped' });
+      await saveRecord(next);
+      return next;
+    }
+
+    // The nonce went back to unused (e.g. after a reorg); the drop window starts over
+    let next = record;
+    if (record.nonceUsedAtBlock !== undefined) {
+      next = { ...record, nonceUsedAtBlock: undefined, updatedAt: Date.now() };
+      await saveRecord(next);
+    }
+    await rebroadcast(next);
+    return next;
+  }
+
+  if (status === 'reverted') {
+    const next = withStatus(record, 'failed', { error: 'Transaction reverted' });
+    await saveRecord(next);
+    return next;
+  }
+
+  return runStateTransition(async (tx) => {
+    const next = withStatus(record, 'confirmed', { serializedTx: undefined, error: undefined });
+    await postEntry(tx, {
+      type: 'withdrawal-payout',
+      token: record.token,
+      postings: [
+        { account: SYSTEM_ACCOUNTS.withdrawals, amount: -BigInt(record.amount) },
+        { account: SYSTEM_ACCOUNTS.chain, amount: BigInt(record.amount) },
+      ],
+      reference: record.id,
+    });
+    await addTransaction(record.wallet, env.VOID_CONTRACT_ADDRESS, record.token, BigInt(record.amount), tx);
+    stageRecord(next, tx);
+    return next;
+  });
+};
+
+// failed (after debit) -> refunded
+const refund = async (record: WithdrawalRecord): Promise<WithdrawalRecord> => {
+  return runStateTransition(async (tx) => {
+    await postEntry(tx, {
+      type: 'refund',
+      token: record.token,
+      postings: [
+        { account: SYSTEM_ACCOUNTS.withdrawals, amount: -BigInt(record.amount) },
+        { account: record.wallet, amount: BigInt(record.amount) },
+      ],
+      reference: record.id,
+    });
+
+    const next = withStatus(record, 'refunded', { serializedTx: undefined });
+    stageRecord(next, tx);
+    return next;
+  });
+};
+
+// Advance one withdrawal as far as it can go right now
+const advance = async (record: WithdrawalRecord): Promise<void> => {
+  let current = record;
+
+  while (!isFinished(current)) {
+    let next: WithdrawalRecord;
+    switch (current.status) {
+      case 'requested':
+        next = await debit(current);
+        break;
+      case 'debited':
+        next = await broadcast(current);
+        break;
+      case 'broadcast':
+        next = await confirm(current);
+        break;
+      case 'failed':
+        next = await refund(current);
+        break;
+      default:
+        return;
+    }
+
+    // Waiting on the chain or on a retry
+    if (next.status === current.status) return;
+    current = next;
+  }
+};
+
+const processActive = async (): Promise<void> => {
+  const active = await dbGetAll(ACTIVE_PREFIX);
+
+  for (const entry of active) {
+    const record = await getWithdrawal(entry.key.slice(ACTIVE_PREFIX.length));
+    if (!record) continue;
+
+    try {
+      await advance(record);
+    } catch (error) {
+      console.error(`Withdrawal ${record.id} could not be advanced:`, error);
+    }
+  }
+};
+
+// Process active withdrawals now instead of waiting for the next tick
+export const wakeWithdrawalWorker = (): void => {
+  if (!processing) {
+    // Callers do not await this, and the worker has to reschedule even if reading the records fails
+    processing = processActive()
+      .catch(error => {
+        console.error('Withdrawal worker failed:', error);
+      })
+      .finally(() => {
+        processing = null;
+      });
+  }
+};
+
+// Advance withdrawals in the background; also resumes withdrawals interrupted by a restart
+export const startWithdrawalWorker = (): void => {
+  const tick = async () => {
+    wakeWithdrawalWorker();
+    await processing;
+    if (running) timer = setTimeout(tick, env.WITHDRAWAL_POLL_INTERVAL_MS);
+  };
+
+  running = true;
+  void tick();
+};
+
+export const stopWithdrawalWorker = (): void => {
+  running = false;
+  if (timer) clearTimeout(timer);
+  timer = null;
+};
@@ -1,5 +1,8 @@
+import { SecretSource, SecretVersion } from './wallet.types';
+
 export interface JwtPayload {
   wallet: string;
+  sid: string; // session the access token belongs to
   iat?: number;
   exp?: number;
 }
@@ -10,12 +13,68 @@ export interface LoginRequest {
   signature: string;
 }
 
+// Sign-In with Ethereum (EIP-4361) message issued for one login attempt
+export interface LoginMessageResponse {
+  message: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+// auth:nonce:<address>:<nonce> -> LoginNonce; deleted when a login uses it
+export interface LoginNonce {
+  address: string;
+  expiresAt: number;
+}
+
 export interface LoginResponse {
-  token: string;
+  token: string; // short-lived access token
+  refreshToken: string; // single use; each refresh returns a new one
+  expiresAt: number; // access token expiry
+  wallet: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+// auth:session:<id> -> AuthSession. Refresh tokens are <id>.<secret>; only their hashes are stored.
+export interface AuthSession {
+  id: string;
   wallet: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // presenting this again means the token was copied; the session is revoked
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+  revokedReason?: 'logout' | 'revoked' | 'refresh-token-reuse';
+  userAgent?: string;
+  ip?: string;
+}
+
+// Client details recorded with a session so the user can tell sessions apart
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  userAgent?: string;
+  ip?: string;
+  current: boolean;
 }
 
 export interface MeResponse {
   wallet: string;
   required_secrets: string[];
+  // 'random' secrets (smart-contract wallets) cannot be re-derived by signing; the exit kit is the only copy
+  secret_source: SecretSource | null;
+  // Derivation of the balance secret; the emergency exit re-derives it the same way
+  secret_version: SecretVersion | null;
+  // Rotations so far; the next rotation signs generation secret_generation + 1
+  secret_generation: number;
 }
@@ -1,10 +1,42 @@
+import { SecretVersion } from './wallet.types';
+
 export interface BalanceProof {
   root: string;
   siblings: string[];
   key: string;
   value: string;
+  // Merkle-sum proof in the token's sum tree: the same leaf is counted in total under sumRoot
+  sumRoot?: string;
+  total?: string; // raw token base units
+  sumSiblings?: SumSibling[];
+}
+
+export interface SumSibling {
+  hash: string;
+  sum: string; // raw token base units
 }
 
+// Root of a token's Merkle-sum tree and the total liabilities it commits to
+export interface TokenLiabilities {
+  token: string;
+  sumRoot: string;
+  total: string; // raw token base units
+}
+
+// Proof that a key has no leaf; matchingEntry is the other leaf its path ends in, if any
+export interface NonInclusionProof {
+  root: string;
+  siblings: string[];
+  key: string;
+  matchingEntry?: { key: string; value: string };
+}
+
+// secretVersion and secretGeneration name the balance secret the proof's key was built with
+export type AccountProof = (
+  | { type: 'inclusion'; proof: BalanceProof }
+  | { type: 'non-inclusion'; proof: NonInclusionProof }
+) & { secretVersion: SecretVersion; secretGeneration: number };
+
 export interface BalanceEntry {
   wallet: string;
   token: string;
@@ -13,6 +45,14 @@ export interface BalanceEntry {
 
 export interface BalanceWithProof {
   token: string;
-  balance: string;
+  balance: string; // raw token base units
+  proof: BalanceProof;
+}
+
+export interface BalanceView {
+  token: string;
+  balance: string; // decimal amount, formatted with the token's decimals
+  rawBalance: string;
+  decimals: number;
   proof: BalanceProof;
 }
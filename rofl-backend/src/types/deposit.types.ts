@@ -0,0 +1,51 @@
+// A Deposited event log, identified on-chain by its transaction hash and log index
+export interface Deposit {
+  txHash: string;
+  logIndex: number;
+  user: string;
+  token: string;
+  amount: bigint; // raw token base units
+  blockNumber?: number; // set by sources that track blocks, used to undo credits on reorgs
+}
+
+// Stored once a deposit has been credited so retries and re-scans skip it
+export interface ProcessedDeposit {
+  user: string;
+  token: string;
+  amount: string; // raw token base units
+  blockNumber?: number;
+  creditedAt: number;
+  legacy?: boolean; // credited before markers existed; the marker was added by the one-time migration
+}
+
+// Progress of the one-time scan that gives deposits credited before markers existed a marker.
+// The range and the wallets are fixed when the scan starts, so resuming it reads the same logs.
+export interface LegacyMarkerScan {
+  fromBlock: number;
+  toBlock: number;
+  nextBlock: number; // first block not scanned yet
+  wallets: string[]; // lowercased wallets that had a balance secret when the scan started
+}
+
+// Deposit from a wallet without a balance secret, credited once the secret is set
+export interface PendingDeposit {
+  txHash: string;
+  logIndex: number;
+  user: string;
+  token: string;
+  amount: string; // raw token base units
+  blockNumber?: number;
+  receivedAt: number;
+}
+
+export interface PendingDepositView {
+  txHash: string;
+  logIndex: number;
+  token: string;
+  amount: string; // decimal amount, formatted with the token's decimals
+  rawAmount: string;
+  decimals: number;
+  receivedAt: number;
+}
+
+export type DepositOutcome = 'credited' | 'pending' | 'duplicate';
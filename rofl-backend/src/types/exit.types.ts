@@ -0,0 +1,42 @@
+import { SumSibling, TokenLiabilities } from './balance.types';
+import { SecretVersion } from './wallet.types';
+
+// One token of an exit kit; hex fields are 0x-prefixed bytes32. key, value and siblings, with the kit's nonce,
+// are the arguments of emergencyWithdrawWithInclusive
+export interface ExitKitEntry {
+  token: string;
+  decimals: number;
+  balance: string; // decimal amount as of the kit's root
+  rawBalance: string; // base units
+  key: string; // SMT leaf key
+  value: string; // SMT leaf value (balance)
+  siblings: string[]; // as returned by the balance proof, root level first
+  sumSiblings?: SumSibling[]; // Merkle-sum proof of the same leaf under the token's entry in root.liabilities
+}
+
+// Everything needed to exit without the backend, as of one state root
+export interface ExitKit {
+  format: 'void-exit-kit';
+  version: number;
+  chainId: number;
+  contract: string;
+  wallet: string;
+  createdAt: number;
+  root: {
+    stateRoot: string;
+    term: number | null; // null when no root has been committed yet; such kits cannot be used on-chain
+    committedAt: number | null;
+    txHash: string | null;
+    signature: string | null; // TEE EIP-712 StateRoot signature
+    liabilitiesRoot: string | null; // signed and committed with stateRoot; null for the live root or older commitments
+    liabilities: TokenLiabilities[];
+  };
+  // Balance secret the leaves are keyed with under root.stateRoot: the leaf key is keccak256(wallet, token, nonce),
+  // which emergencyWithdrawWithInclusive recomputes from the caller. Anyone holding it can find the wallet's leaves,
+  // so it is null unless root is committed and the kit has a leaf to prove
+  nonce: string | null;
+  // Derivation of nonce: the message to sign to re-derive it (e.g. after losing the kit)
+  secretVersion: SecretVersion;
+  secretGeneration: number;
+  tokens: ExitKitEntry[];
+}
@@ -0,0 +1,34 @@
+export type VoidEventName =
+  | 'Deposited'
+  | 'EmergencyWithdraw'
+  | 'WithdrawNonInclusive'
+  | 'TeeRegistered'
+  | 'PingReceived'
+  | 'TeeMarkedDead'
+  | 'TeeRevived';
+
+// A confirmed Void contract event as recorded by the indexer
+export interface IndexedEvent {
+  name: VoidEventName;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, string>; // uint256 values as decimal strings
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+// Last fully processed block plus recent checkpoints used to find the fork point after a reorg
+export interface IndexerCursor {
+  head: BlockRef;
+  checkpoints: BlockRef[];
+}
+
+// EmergencyWithdraw applied to the ledger; debited may be less than amount if the ledger held less
+export interface AppliedExit extends IndexedEvent {
+  debited: string; // raw token base units
+}
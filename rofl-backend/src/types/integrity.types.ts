@@ -0,0 +1,47 @@
+// A leaf as it should be, according to the persisted row it is derived from
+export interface RecordLeaf {
+  key: string;
+  value: string;
+  record: string; // database key of the row
+}
+
+export interface LeafDivergence {
+  key: string;
+  expected: string | null; // value rebuilt from the records, null if no record produces this key
+  actual: string | null; // value in the live tree, null if the key has no leaf there
+  record?: string;
+}
+
+export interface TreeAudit {
+  tree: 'balance' | 'transaction';
+  liveRoot: string;
+  rebuiltRoot: string;
+  matches: boolean; // same root, same leaves and every live node intact
+  leafCount: number; // leaves rebuilt from the records
+  invalidNodes: string[]; // live nodes that are missing or do not match their hash
+  divergenceCount: number;
+  firstDivergence: LeafDivergence | null; // lowest divergent key
+}
+
+// Nodes under a root committed on-chain; records only describe the current state, so these are checked for integrity
+export interface CommittedRootAudit {
+  term: number;
+  stateRoot: string;
+  txRoot: string;
+  intact: boolean;
+  invalidNodes: string[];
+}
+
+export interface IntegrityReport {
+  generatedAt: number;
+  ok: boolean;
+  balance: TreeAudit;
+  transactions: TreeAudit;
+  committedRoots: CommittedRootAudit[];
+  onChain: {
+    term: number;
+    stateRoot: string;
+    matchesLocal: boolean; // same term, root and signature as the last locally recorded commitment
+  } | null;
+  onChainError?: string;
+}
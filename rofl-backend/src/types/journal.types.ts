@@ -0,0 +1,55 @@
+// What moved value; every change to a balance is one of these
+export type JournalEntryType =
+  | 'opening' // balance that existed before the journal, recorded once
+  | 'deposit'
+  | 'deposit-reversal' // deposit undone by a reorg
+  | 'transfer'
+  | 'claim' // transfer held in system:unclaimed, credited once the receiver has a balance secret
+  | 'withdrawal' // debited into system:withdrawals until paid out or refunded
+  | 'withdrawal-payout'
+  | 'refund'
+  | 'exit' // emergency withdrawal made on-chain
+  | 'exit-reversal'
+  | 'fee';
+
+// One side of an entry; amount is signed raw token base units (credit > 0, debit < 0)
+export interface JournalPosting {
+  account: string; // wallet address, or a system:* account
+  amount: string;
+}
+
+// Postings of an entry sum to zero, so value only moves between accounts
+export interface JournalEntry {
+  id: string;
+  seq: number;
+  type: JournalEntryType;
+  token: string;
+  postings: JournalPosting[];
+  reference?: string; // source of the movement, e.g. <txHash>:<logIndex> or a withdrawal id
+  createdAt: number;
+}
+
+// One entry as seen from one account, with the account's balance after it
+export interface JournalLine {
+  entryId: string;
+  seq: number;
+  type: JournalEntryType;
+  amount: string;
+  balance: string;
+  reference?: string;
+  createdAt: number;
+}
+
+// A wallet balance next to the journal lines that add up to it
+export interface BalanceExplanation {
+  balance: bigint; // sum of the lines
+  ledger: bigint; // balance row / SMT leaf; equal to balance unless a row was changed outside the journal
+  lines: JournalLine[];
+}
+
+export interface NewJournalEntry {
+  type: JournalEntryType;
+  token: string;
+  postings: { account: string; amount: bigint }[];
+  reference?: string;
+}
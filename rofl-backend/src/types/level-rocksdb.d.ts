@@ -3,6 +3,7 @@ declare module 'level-rocksdb' {
     get(key: string): Promise<string>;
     put(key: string, value: string): Promise<void>;
     del(key: string): Promise<void>;
+    batch(operations: Array<{ type: 'put'; key: string; value: string } | { type: 'del'; key: string }>): Promise<void>;
     close(): Promise<void>;
     createReadStream(options?: {
       gte?: string;
@@ -14,6 +15,6 @@ declare module 'level-rocksdb' {
     }): NodeJS.ReadableStream;
   }
 
-  function level(location: string): LevelDB;
+  function level(location: string, options?: { readOnly?: boolean }): LevelDB;
   export default level;
 }
@@ -0,0 +1,13 @@
+// Pinger state reported by the health endpoint; timestamps are unix milliseconds
+export interface LivenessStatus {
+  enabled: boolean;
+  isAlive: boolean | null; // contract view of liveness at the last check
+  lastCheckAt: number | null;
+  lastPingAt: number | null; // last ping recorded by the contract
+  lastPingTxHash: string | null; // last ping sent by this process
+  timeUntilTimeout: number | null; // seconds left at the last check
+  pingTimeout: number | null; // seconds
+  gasBalance: string | null; // ROFL wallet balance in ETH
+  consecutiveFailures: number;
+  lastError: string | null;
+}
@@ -0,0 +1,30 @@
+export type TokenReconciliationStatus = 'balanced' | 'surplus' | 'deficit' | 'unknown';
+
+// All amounts are raw token base units
+export interface TokenReconciliation {
+  token: string;
+  liabilities: string; // sum of ledger balances
+  pendingDeposits: string; // received on-chain, not yet credited (wallet has no balance secret)
+  inFlightWithdrawals: string; // debited from the ledger, not yet paid out or refunded
+  unclaimed: string; // transferred to wallets without secrets, held in system:unclaimed
+  custody: string | null; // balanceOf(Void), null if it could not be read
+  difference: string | null; // custody - (liabilities + pendingDeposits + inFlightWithdrawals + unclaimed)
+  status: TokenReconciliationStatus;
+  error?: string;
+}
+
+// A ledger balance that does not match the sum of the wallet's journal postings
+export interface AccountDiscrepancy {
+  wallet: string;
+  token: string;
+  ledger: string;
+  expected: string;
+  difference: string; // ledger - expected
+}
+
+export interface ReconciliationReport {
+  generatedAt: number;
+  solvent: boolean; // every token's custody was read and covers what is owed
+  tokens: TokenReconciliation[];
+  discrepancies: AccountDiscrepancy[];
+}
@@ -0,0 +1,25 @@
+import { SecretSource, SecretVersion } from './wallet.types';
+
+export interface RotateSecretsRequest {
+  signature: string; // RotateSecrets typed data
+  generation: number; // must be the wallet's current generation + 1
+}
+
+// Audit record of one rotation. Holds counts and roots only: no secrets, and no leaf keys that would
+// link the wallet's old leaves to its new ones.
+export interface SecretRotation {
+  id: string;
+  wallet: string;
+  generation: number;
+  fromVersion: SecretVersion; // of the replaced balance secret
+  toVersion: SecretVersion;
+  source: SecretSource;
+  balanceLeaves: number; // leaves moved, in the balance tree and the sum trees
+  txLeaves: number;
+  stateRootBefore: string;
+  stateRootAfter: string;
+  txRootBefore: string;
+  txRootAfter: string;
+  sessionId?: string; // session that requested the rotation
+  rotatedAt: number;
+}
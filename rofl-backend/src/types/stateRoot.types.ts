@@ -0,0 +1,16 @@
+import { TokenLiabilities } from './balance.types';
+
+// A balance root signed by the TEE and submitted to Void.SetState under a term
+export interface StateRootCommitment {
+  term: number;
+  stateRoot: `0x${string}`; // balance SMT root, the root emergency exits are proven against
+  txRoot: `0x${string}`; // transaction SMT root at the same point
+  liabilities?: TokenLiabilities[]; // per-token sum roots and totals at the same point
+  // hashLiabilities(liabilities), signed and committed with the roots; absent on commitments signed before it was
+  liabilitiesRoot?: `0x${string}`;
+  signature: `0x${string}`; // EIP-712 StateRoot signature by the ROFL wallet, stored on-chain as is
+  status: 'signed' | 'committed';
+  txHash?: string;
+  createdAt: number;
+  committedAt?: number;
+}
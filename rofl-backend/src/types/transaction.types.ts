@@ -2,7 +2,7 @@ export interface TransactionEntry {
   sender: string;
   receiver: string;
   token: string;
-  amount: string;
+  amount: string; // raw token base units
   timestamp: number;
 }
 
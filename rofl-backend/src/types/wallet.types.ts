@@ -1,7 +1,39 @@
+import { WithdrawalStatus } from './withdrawal.types';
+
 export interface SendTransaction {
   from: string;
   to: string;
   token: string;
+  amount: string; // decimal amount, converted to base units with the token's decimals
+  nonce: number; // must equal the sender's next nonce (GET /api/wallet/nonce)
+  deadline: number; // unix seconds after which the signature is rejected
+}
+
+// Nonce plus the EIP-712 domain fields clients need to sign typed requests
+export interface TransferDomain {
+  nonce: number;
+  chainId: number;
+  contract: string;
+}
+
+export interface Withdrawal {
+  wallet: string;
+  token: string;
+  amount: string; // decimal amount, converted to base units with the token's decimals
+  nonce: number;
+  deadline: number;
+}
+
+export interface WithdrawRequest {
+  withdrawal: Withdrawal;
+  signature: string;
+}
+
+export interface WithdrawResult {
+  id: string; // poll GET /api/withdrawals/:id for progress
+  status: WithdrawalStatus;
+  wallet: string;
+  token: string;
   amount: string;
 }
 
@@ -16,6 +48,16 @@ export interface ApiResponse<T = unknown> {
   error?: string;
 }
 
+// Transfer to a wallet without secrets, held in system:unclaimed until the receiver sets a balance secret
+export interface UnclaimedTransfer {
+  entryId: string; // journal entry that moved the amount into system:unclaimed
+  from: string;
+  to: string;
+  token: string;
+  amount: string; // raw token base units
+  createdAt: number;
+}
+
 export interface TransferResult {
   txHash: string;
   from: string;
@@ -33,3 +75,36 @@ export interface SetSecretResponse {
   success: boolean;
   message: string;
 }
+
+// 'signature': re-derivable by signing the secret message again (EOAs, e.g. in the emergency exit).
+// 'random': generated by the backend for smart-contract wallets, whose signatures differ on every
+// signing (multisig owner sets, passkeys); only recoverable from the exit kit.
+export type SecretSource = 'signature' | 'random';
+
+// How a stored secret was derived: 'legacy' is keccak256 of one signature per secret,
+// 'v1' is HKDF-SHA256 from the wallet's onboarding seed (see deriveVersionedSecret)
+export type SecretVersion = 'legacy' | 'v1';
+
+// Secret types derived from the onboarding seed; new types only need a new purpose
+export type SecretPurpose = 'balance' | 'tx';
+
+// A balance secret and how it was derived; a wallet re-derives it by signing the message of that version and generation
+export interface BalanceSecretInfo {
+  secret: string;
+  version: SecretVersion;
+  generation: number;
+}
+
+// Balance secret replaced by a rotation, kept so proofs against roots committed before it still find the wallet's leaves
+export interface RetiredSecret extends BalanceSecretInfo {
+  retiredAt: number;
+}
+
+// Input keying material of a wallet's versioned secrets, kept so new secret types can be derived without a new signature
+export interface SecretSeed {
+  version: SecretVersion;
+  seed: string; // r || s of the onboarding (or latest rotation) signature, or random bytes for contract wallets
+  source: SecretSource;
+  generation: number; // 0 from onboarding, incremented by every rotation
+  createdAt: number;
+}
@@ -0,0 +1,32 @@
+// requested -> debited -> broadcast -> confirmed, or -> failed -> refunded once debited
+export type WithdrawalStatus = 'requested' | 'debited' | 'broadcast' | 'confirmed' | 'failed' | 'refunded';
+
+export interface WithdrawalRecord {
+  id: string;
+  wallet: string;
+  token: string;
+  amount: string; // raw token base units
+  status: WithdrawalStatus;
+  debited: boolean; // balance has been taken and must be refunded if the withdrawal fails
+  txHash?: string;
+  serializedTx?: string; // signed transaction, rebroadcast until it is mined or replaced
+  chainNonce?: number;
+  nonceUsedAtBlock?: number; // head when chainNonce was first seen used while our receipt was missing
+  attempts: number; // failed signing attempts
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WithdrawalView {
+  id: string;
+  status: WithdrawalStatus;
+  token: string;
+  amount: string; // decimal amount, formatted with the token's decimals
+  rawAmount: string;
+  decimals: number;
+  txHash?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,51 @@
+import { formatUnits } from 'viem';
+
+// Non-negative decimal string, e.g. "2", "0.5", "1.000001"
+const DECIMAL_AMOUNT_REGEX = /^\d+(\.\d+)?$/;
+
+export const isDecimalAmount = (amount: string): boolean => {
+  return DECIMAL_AMOUNT_REGEX.test(amount);
+};
+
+/**
+ * Convert a human-readable decimal amount to raw token base units without rounding.
+ * Returns null if the amount is malformed or has more fractional digits than the token supports.
+ */
+export const toBaseUnits = (amount: string, decimals: number): bigint | null => {
+  if (!isDecimalAmount(amount)) return null;
+
+  const [whole, rawFraction = ''] = amount.split('.');
+  const fraction = rawFraction.replace(/0+$/, '');
+  if (fraction.length > decimals) return null;
+
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+};
+
+// Number#toString output: plain decimal or exponent notation, e.g. "0.1", "1e-7", "1.5e+21"
+const LEGACY_AMOUNT_REGEX = /^(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Convert a version 1 amount (a JS number's shortest string form) to base units from its digits, so no
+ * float arithmetic adds dust. Digits beyond the token's precision are rounded half up; returns null if malformed.
+ */
+export const legacyToBaseUnits = (amount: string, decimals: number): bigint | null => {
+  const match = LEGACY_AMOUNT_REGEX.exec(amount.trim());
+  if (!match) return null;
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  // Shift the decimal point by the exponent, then by decimals
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent) + decimals;
+  if (point <= 0) {
+    return point === 0 && Number(digits[0]) >= 5 ? 1n : 0n;
+  }
+
+  const kept = point >= digits.length ? digits.padEnd(point, '0') : digits.slice(0, point);
+  const roundUp = point < digits.length && Number(digits[point]) >= 5;
+  return BigInt(kept) + (roundUp ? 1n : 0n);
+};
+
+// Convert raw token base units to a human-readable decimal string
+export const fromBaseUnits = (raw: bigint, decimals: number): string => {
+  return formatUnits(raw, decimals);
+};
@@ -0,0 +1,75 @@
+import { env } from '../config/env';
+
+// EIP-712 domain shared by every signed backend action; binds signatures to this chain and Void contract
+export const getVoidDomain = () => ({
+  name: 'Void Wallet',
+  version: '1',
+  chainId: env.CHAIN_ID,
+  verifyingContract: env.VOID_CONTRACT_ADDRESS as `0x${string}`,
+});
+
+export const VOID_TYPES = {
+  Transfer: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  Withdraw: [
+    { name: 'wallet', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  SetBalanceSecret: [
+    { name: 'wallet', type: 'address' },
+    { name: 'statement', type: 'string' },
+  ],
+  SetTxSecret: [
+    { name: 'wallet', type: 'address' },
+    { name: 'statement', type: 'string' },
+  ],
+  OnboardSecrets: [
+    { name: 'wallet', type: 'address' },
+    { name: 'statement', type: 'string' },
+    { name: 'version', type: 'string' },
+  ],
+  RotateSecrets: [
+    { name: 'wallet', type: 'address' },
+    { name: 'statement', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'generation', type: 'uint256' },
+  ],
+} as const;
+
+export type VoidPrimaryType = keyof typeof VOID_TYPES;
+
+// Message shapes as sent over the API (uint256 fields arrive as JSON numbers)
+export interface VoidTypedMessages {
+  Transfer: { from: string; to: string; token: string; amount: string; nonce: number; deadline: number };
+  Withdraw: { wallet: string; token: string; amount: string; nonce: number; deadline: number };
+  SetBalanceSecret: { wallet: string; statement: string };
+  SetTxSecret: { wallet: string; statement: string };
+  OnboardSecrets: { wallet: string; statement: string; version: string };
+  RotateSecrets: { wallet: string; statement: string; version: string; generation: number };
+}
+
+// Convert an API message into the value shape expected by the EIP-712 encoder
+export const toTypedMessage = (message: Record<string, unknown>): Record<string, unknown> => {
+  return Object.fromEntries(
+    Object.entries(message).map(([field, value]) => [field, typeof value === 'number' ? BigInt(value) : value])
+  );
+};
+
+// Signed by the TEE, not by users: attests to the state committed on-chain under a term
+export const STATE_ROOT_TYPES = {
+  StateRoot: [
+    { name: 'stateRoot', type: 'bytes32' },
+    { name: 'txRoot', type: 'bytes32' },
+    { name: 'liabilitiesRoot', type: 'bytes32' },
+    { name: 'term', type: 'uint256' },
+  ],
+} as const;
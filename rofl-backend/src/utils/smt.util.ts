@@ -0,0 +1,305 @@
+import { dbGet, DbOperation } from '../services/db.service';
+
+// Node hashes and entry fields are hex strings (same conventions as @cedoor/smt)
+export type Node = string;
+export type ChildNodes = Node[];
+export type HashFunction = (childNodes: ChildNodes) => Node;
+
+export interface SMTProof {
+  entry: ChildNodes;
+  matchingEntry?: ChildNodes;
+  sidenodes: Node[];
+  root: Node;
+  membership: boolean;
+}
+
+// Uncommitted mutations of one tree: the new root and the nodes created to reach it
+export interface SMTChanges {
+  root: Node;
+  writes: Map<Node, ChildNodes>;
+}
+
+interface EntryResponse {
+  entry: ChildNodes;
+  matchingEntry?: ChildNodes;
+  sidenodes: Node[];
+}
+
+const ZERO_NODE = '0';
+const ENTRY_MARK = '1';
+
+// 256 bits of the key, least significant bit first (matches @cedoor/smt keyToPath)
+const keyToPath = (key: string): number[] => {
+  const bits = BigInt('0x' + key).toString(2);
+  return bits.padStart(256, '0').split('').reverse().map(Number);
+};
+
+const getIndexOfLastNonZeroElement = (nodes: Node[]): number => {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    if (BigInt('0x' + nodes[i]) !== 0n) return i;
+  }
+  return -1;
+};
+
+// A stored node row, or null if it is missing or not an array of nodes (e.g. a corrupted row)
+const parseNode = (stored: string | null): ChildNodes | null => {
+  if (stored === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) && parsed.every((node) => typeof node === 'string') ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sparse Merkle tree with nodes persisted in RocksDB and loaded lazily.
+ * Produces the same nodes and roots as @cedoor/smt, so existing roots and proofs stay valid,
+ * but only the root hash is read at startup and only touched paths are kept in memory.
+ *
+ * Nodes are content-addressed and never rewritten, so readers of the committed root are
+ * unaffected by mutations staged in an {@link SMTChanges} until {@link applyChanges} runs.
+ *
+ * Storage layout:
+ *   smt:<namespace>:root        -> current root node
+ *   smt:<namespace>:node:<hash> -> JSON array of child nodes (or [key, value, 1] for leaves)
+ */
+export class PersistentSMT {
+  // Committed root
+  root: Node = ZERO_NODE;
+
+  // Bounded cache of recently used nodes; Map iteration order gives LRU eviction
+  private cache = new Map<Node, ChildNodes>();
+
+  constructor(
+    private readonly namespace: string,
+    private readonly hash: HashFunction,
+    private readonly cacheSize = 50_000
+  ) {}
+
+  // Load the persisted root; returns false if this tree has never been stored
+  async load(): Promise<boolean> {
+    const root = await dbGet(this.rootKey());
+    if (root === null) return false;
+    this.root = root;
+    return true;
+  }
+
+  // Start a set of mutations on top of the committed root
+  beginChanges(): SMTChanges {
+    return { root: this.root, writes: new Map() };
+  }
+
+  // Database operations that persist the staged nodes and root
+  toOperations(changes: SMTChanges): DbOperation[] {
+    const operations: DbOperation[] = [];
+    for (const [node, childNodes] of changes.writes) {
+      operations.push({ type: 'put', key: this.nodeKey(node), value: JSON.stringify(childNodes) });
+    }
+    operations.push({ type: 'put', key: this.rootKey(), value: changes.root });
+    return operations;
+  }
+
+  // Make staged changes visible once their operations have been written
+  applyChanges(changes: SMTChanges): void {
+    for (const [node, childNodes] of changes.writes) {
+      this.cacheNode(node, childNodes);
+    }
+    this.root = changes.root;
+  }
+
+  // Read a value from the committed tree, or from staged changes if given
+  async get(key: string, changes?: SMTChanges): Promise<string | undefined> {
+    const { entry } = await this.retrieveEntry(key, changes);
+    return entry[1];
+  }
+
+  // Stage adding the entry if the key is new, otherwise updating its value
+  async set(key: string, value: string, changes: SMTChanges): Promise<void> {
+    const response = await this.retrieveEntry(key, changes);
+    if (response.entry[1] === undefined) {
+      this.addEntry(key, value, response, changes);
+    } else {
+      this.updateEntry(key, value, response, changes);
+    }
+  }
+
+  // Stage removing an entry
+  async delete(key: string, changes: SMTChanges): Promise<void> {
+    const response = await this.retrieveEntry(key, changes);
+    if (response.entry[1] === undefined) {
+      throw new Error(`Key "${key}" does not exist`);
+    }
+
+    const lastSidenode = response.sidenodes[response.sidenodes.length - 1];
+    const lastIsLeaf = lastSidenode !== undefined && !!(await this.getNode(lastSidenode, changes))?.[2];
+    this.deleteEntry(key, response, lastIsLeaf, changes);
+  }
+
+  // Proof against the committed root, or against an earlier root: nodes are never deleted,
+  // so every root this tree has had stays readable
+  async createProof(key: string, root: Node = this.root): Promise<SMTProof> {
+    const { entry, matchingEntry, sidenodes } = await this.retrieveEntry(key, { root, writes: new Map() });
+    return {
+      entry,
+      matchingEntry,
+      sidenodes,
+      root,
+      membership: entry[1] !== undefined,
+    };
+  }
+
+  // Root a tree holding exactly these [key, value] entries would have. Built in scratch changes that
+  // are never written, so neither this tree nor the database is touched.
+  async computeRoot(entries: [string, string][]): Promise<Node> {
+    const changes: SMTChanges = { root: ZERO_NODE, writes: new Map() };
+    for (const [key, value] of entries) {
+      await this.set(key, value, changes);
+    }
+    return changes.root;
+  }
+
+  // Every leaf under root, checking each node against its hash. Nodes are read from the database,
+  // not the cache, so corrupted rows are seen; missing or mismatching nodes are reported and not descended into.
+  // Subtrees in skip (e.g. already audited under another root) are not visited and are added to it.
+  async audit(root: Node = this.root, skip?: Set<Node>): Promise<{ entries: ChildNodes[]; invalidNodes: Node[] }> {
+    const entries: ChildNodes[] = [];
+    const invalidNodes: Node[] = [];
+    const stack: Node[] = [root];
+
+    while (stack.length > 0) {
+      const node = stack.pop() as Node;
+      if (node === ZERO_NODE || skip?.has(node)) continue;
+      skip?.add(node);
+
+      const childNodes = parseNode(await dbGet(this.nodeKey(node)));
+      if (!childNodes || this.hash(childNodes) !== node) {
+        invalidNodes.push(node);
+        continue;
+      }
+
+      if (childNodes[2]) {
+        entries.push(childNodes);
+      } else {
+        stack.push(childNodes[0], childNodes[1]);
+      }
+    }
+
+    return { entries, invalidNodes };
+  }
+
+  private rootKey(): string {
+    return `smt:${this.namespace}:root`;
+  }
+
+  private nodeKey(node: Node): string {
+    return `smt:${this.namespace}:node:${node}`;
+  }
+
+  private async getNode(node: Node, changes?: SMTChanges): Promise<ChildNodes | undefined> {
+    const staged = changes?.writes.get(node);
+    if (staged) return staged;
+
+    const cached = this.cache.get(node);
+    if (cached) {
+      // Refresh LRU position
+      this.cache.delete(node);
+      this.cache.set(node, cached);
+      return cached;
+    }
+
+    const stored = await dbGet(this.nodeKey(node));
+    if (stored === null) return undefined;
+
+    const childNodes: ChildNodes = JSON.parse(stored);
+    this.cacheNode(node, childNodes);
+    return childNodes;
+  }
+
+  private cacheNode(node: Node, childNodes: ChildNodes): void {
+    this.cache.set(node, childNodes);
+    if (this.cache.size > this.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+
+  private async retrieveEntry(key: string, changes?: SMTChanges): Promise<EntryResponse> {
+    const path = keyToPath(key);
+    const sidenodes: Node[] = [];
+
+    for (let i = 0, node = changes ? changes.root : this.root; node !== ZERO_NODE; i++) {
+      const childNodes = await this.getNode(node, changes);
+      if (!childNodes) {
+        throw new Error(`SMT ${this.namespace}: missing node ${node}`);
+      }
+
+      const direction = path[i];
+
+      // Leaf: either the entry itself or a matching entry sharing the first i bits
+      if (childNodes[2]) {
+        if (childNodes[0] === key) {
+          return { entry: childNodes, sidenodes };
+        }
+        return { entry: [key], matchingEntry: childNodes, sidenodes };
+      }
+
+      node = childNodes[direction];
+      sidenodes.push(childNodes[Number(!direction)]);
+    }
+
+    return { entry: [key], sidenodes };
+  }
+
+  private addEntry(key: string, value: string, { matchingEntry, sidenodes }: EntryResponse, changes: SMTChanges): void {
+    const path = keyToPath(key);
+
+    // Push the matching leaf down until the two paths diverge
+    if (matchingEntry) {
+      const matchingPath = keyToPath(matchingEntry[0]);
+      for (let i = sidenodes.length; matchingPath[i] === path[i]; i++) {
+        sidenodes.push(ZERO_NODE);
+      }
+      sidenodes.push(this.hash(matchingEntry));
+    }
+
+    const newNode = this.hash([key, value, ENTRY_MARK]);
+    changes.writes.set(newNode, [key, value, ENTRY_MARK]);
+    changes.root = this.addNewNodes(newNode, path, sidenodes, changes);
+  }
+
+  private updateEntry(key: string, value: string, { sidenodes }: EntryResponse, changes: SMTChanges): void {
+    const path = keyToPath(key);
+
+    const newNode = this.hash([key, value, ENTRY_MARK]);
+    changes.writes.set(newNode, [key, value, ENTRY_MARK]);
+    changes.root = this.addNewNodes(newNode, path, sidenodes, changes);
+  }
+
+  private deleteEntry(key: string, { sidenodes }: EntryResponse, lastIsLeaf: boolean, changes: SMTChanges): void {
+    const path = keyToPath(key);
+
+    if (sidenodes.length === 0) {
+      changes.root = ZERO_NODE;
+      return;
+    }
+
+    // If the last side node is a leaf, it moves up to replace the deleted subtree
+    if (!lastIsLeaf) {
+      changes.root = this.addNewNodes(ZERO_NODE, path, sidenodes, changes);
+    } else {
+      const firstSidenode = sidenodes.pop() as Node;
+      const i = getIndexOfLastNonZeroElement(sidenodes);
+      changes.root = i >= 0 ? this.addNewNodes(firstSidenode, path, sidenodes, changes, i) : firstSidenode;
+    }
+  }
+
+  private addNewNodes(node: Node, path: number[], sidenodes: Node[], changes: SMTChanges, i = sidenodes.length - 1): Node {
+    for (; i >= 0; i--) {
+      const childNodes: ChildNodes = path[i] ? [sidenodes[i], node] : [node, sidenodes[i]];
+      node = this.hash(childNodes);
+      changes.writes.set(node, childNodes);
+    }
+    return node;
+  }
+}
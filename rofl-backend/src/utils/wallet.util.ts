@@ -1,40 +1,109 @@
-import { verifyMessage as viemVerifyMessage } from 'viem';
+import { createPublicClient, http, verifyMessage, verifyTypedData } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { getVoidDomain, toTypedMessage, VOID_TYPES, VoidPrimaryType, VoidTypedMessages } from './eip712.util';
+import { env } from '../config/env';
 
-interface VerifySignatureParams {
+// Smart-contract wallets are verified on-chain: isValidSignature (EIP-1271) for deployed wallets,
+// and a simulated deployment for counterfactual ones whose signature is EIP-6492 wrapped
+const publicClient = createPublicClient({
+  chain: baseSepolia,
+  transport: http(env.BASE_SEPOLIA_RPC_URL || undefined),
+});
+
+// Who produced a valid signature: an EOA key (deterministic ECDSA) or a smart-contract wallet,
+// whose signatures may differ every time the same payload is signed
+export type SignerKind = 'eoa' | 'contract';
+
+interface VerifySignatureParams<T extends VoidPrimaryType> {
   walletAddress: string;
   signature: string;
-  message: string;
+  primaryType: T;
+  message: VoidTypedMessages[T];
 }
 
 interface VerifySignatureResult {
   isValid: boolean;
+  signer?: SignerKind;
   error?: string;
 }
 
-export async function verifyWalletSignature({
-  walletAddress,
-  signature,
-  message,
-}: VerifySignatureParams): Promise<VerifySignatureResult> {
+/** Normalize signature to 65-byte (r,s,v) hex. Handles 64-byte EIP-2098 compact from some wallets. */
+function normalizeSignature(sig: string): `0x${string}` {
+  const raw = typeof sig !== 'string' ? '' : sig.trim();
+  const hex = raw.startsWith('0x') ? raw.slice(2) : raw;
+  if (hex.length === 130) return raw as `0x${string}`;
+  if (hex.length !== 128) return raw as `0x${string}`;
+  const r = hex.slice(0, 64);
+  const sCompact = BigInt('0x' + hex.slice(64, 128));
+  const yParity = Number((sCompact >> 255n) & 1n);
+  const s = (sCompact & ((1n << 255n) - 1n)).toString(16).padStart(64, '0');
+  const v = (27 + yParity).toString(16).padStart(2, '0');
+  return (`0x${r}${s}${v}`) as `0x${string}`;
+}
+
+const isAddressFormat = (address: string): address is `0x${string}` => /^0x[a-fA-F0-9]{40}$/.test(address);
+
+// Offline ECDSA recovery first, since most wallets are EOAs; only a failed recovery costs an RPC call
+const verifyWithFallback = async (
+  verifyOffline: () => Promise<boolean>,
+  verifyOnChain: () => Promise<boolean>
+): Promise<VerifySignatureResult> => {
+  try {
+    if (await verifyOffline()) return { isValid: true, signer: 'eoa' };
+  } catch {
+    // Not a 65-byte ECDSA signature; may still be a contract wallet signature
+  }
+
   try {
-    // Validate address format
-    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
-      return { isValid: false, error: 'Invalid wallet address format' };
-    }
-
-    // Verify signature
-    const isValid = await viemVerifyMessage({
-      address: walletAddress as `0x${string}`,
-      message,
-      signature: signature as `0x${string}`,
-    });
-
-    if (!isValid) {
-      return { isValid: false, error: 'Invalid signature' };
-    }
-
-    return { isValid: true };
+    if (await verifyOnChain()) return { isValid: true, signer: 'contract' };
   } catch (error) {
+    console.error('Contract wallet signature check failed:', error);
     return { isValid: false, error: 'Signature verification failed' };
   }
+
+  return { isValid: false, error: 'Invalid signature' };
+};
+
+export async function verifyWalletSignature<T extends VoidPrimaryType>({
+  walletAddress,
+  signature,
+  primaryType,
+  message,
+}: VerifySignatureParams<T>): Promise<VerifySignatureResult> {
+  // Validate address format
+  if (!isAddressFormat(walletAddress)) {
+    return { isValid: false, error: 'Invalid wallet address format' };
+  }
+
+  // Verify EIP-712 typed data signature against the Void domain
+  const parameters = {
+    address: walletAddress,
+    domain: getVoidDomain(),
+    types: VOID_TYPES,
+    primaryType,
+    message: toTypedMessage({ ...message }),
+    signature: signature as `0x${string}`,
+  } as Parameters<typeof verifyTypedData>[0];
+
+  return verifyWithFallback(
+    () => verifyTypedData({ ...parameters, signature: normalizeSignature(signature) }),
+    () => publicClient.verifyTypedData(parameters as Parameters<typeof publicClient.verifyTypedData>[0])
+  );
+}
+
+// Plain (EIP-191) message signature, e.g. a Sign-In with Ethereum message
+export async function verifyMessageSignature(
+  walletAddress: string,
+  message: string,
+  signature: string
+): Promise<VerifySignatureResult> {
+  if (!isAddressFormat(walletAddress)) {
+    return { isValid: false, error: 'Invalid wallet address format' };
+  }
+
+  const parameters = { address: walletAddress, message, signature: signature as `0x${string}` };
+  return verifyWithFallback(
+    () => verifyMessage({ ...parameters, signature: normalizeSignature(signature) }),
+    () => publicClient.verifyMessage(parameters)
+  );
 }
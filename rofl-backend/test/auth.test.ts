@@ -0,0 +1,50 @@
+import { openTestDatabase, removeTestDatabase } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
+import { AuthService } from '../src/services/auth.service';
+import { dbGetAll } from '../src/services/db.service';
+import { env } from '../src/config/env';
+
+const auth = new AuthService();
+
+before(openTestDatabase);
+after(removeTestDatabase);
+
+test('logs in once with a signed login message', async () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const { message } = await auth.generateMessage(account.address);
+  const signature = await account.signMessage({ message });
+
+  const response = await auth.login({ address: account.address, message, signature });
+  assert.equal(response.wallet, account.address);
+  assert.ok(response.token && response.refreshToken);
+
+  // The nonce was used up
+  await assert.rejects(auth.login({ address: account.address, message, signature }), /nonce is unknown, expired or already used/);
+});
+
+test('rejects a message signed by another wallet', async () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const other = privateKeyToAccount(generatePrivateKey());
+  const { message } = await auth.generateMessage(account.address);
+
+  await assert.rejects(
+    auth.login({ address: account.address, message, signature: await other.signMessage({ message }) }),
+    /Signature does not match address/
+  );
+});
+
+test('refuses new login messages at SIWE_MAX_PENDING_NONCES instead of dropping pending ones', async () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const first = await auth.generateMessage(account.address);
+  // Messages requested for other addresses count towards the same cap
+  while ((await dbGetAll('auth:nonce:')).length < env.SIWE_MAX_PENDING_NONCES) {
+    await auth.generateMessage(privateKeyToAccount(generatePrivateKey()).address);
+  }
+
+  await assert.rejects(auth.generateMessage(account.address), /Too many pending login messages/);
+  // The pending message still logs in, which frees room for a new one
+  await auth.login({ address: account.address, message: first.message, signature: await account.signMessage({ message: first.message }) });
+  await auth.generateMessage(account.address);
+});
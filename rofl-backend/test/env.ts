@@ -0,0 +1,11 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Each test file runs in its own process with its own database; set before any service reads env
+export const TEST_DB_PATH = mkdtempSync(join(tmpdir(), 'rofl-backend-test-'));
+process.env.DB_PATH = TEST_DB_PATH;
+// Transfers to receivers without secrets are parked in system:unclaimed instead of rejected
+process.env.SKIP_RECEIVER_SECRET_CHECK = 'true';
+// Small enough for the auth tests to fill
+process.env.SIWE_MAX_PENDING_NONCES = '5';
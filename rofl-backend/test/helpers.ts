@@ -0,0 +1,35 @@
+import { TEST_DB_PATH } from './env';
+import { rmSync } from 'fs';
+import { privateKeyToAccount, generatePrivateKey, type PrivateKeyAccount } from 'viem/accounts';
+import { closeDatabase, initializeDatabase } from '../src/services/db.service';
+import { initializeBalanceService } from '../src/services/balance.service';
+import { initializeTransactionService } from '../src/services/transaction.service';
+import { onboardSecrets, SECRETS_MESSAGE, SECRET_VERSION } from '../src/services/secret.service';
+import { getVoidDomain, VOID_TYPES } from '../src/utils/eip712.util';
+
+export const TOKEN = '0x1111111111111111111111111111111111111111';
+
+// Open the test database with the balance and transaction trees loaded
+export const openTestDatabase = async (): Promise<void> => {
+  await initializeDatabase();
+  await initializeBalanceService();
+  await initializeTransactionService();
+};
+
+export const removeTestDatabase = async (): Promise<void> => {
+  await closeDatabase();
+  rmSync(TEST_DB_PATH, { recursive: true, force: true });
+};
+
+// A fresh EOA with secrets set from a signed OnboardSecrets message, as POST /api/wallet/onboard does
+export const onboardWallet = async (): Promise<PrivateKeyAccount> => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const signature = await account.signTypedData({
+    domain: getVoidDomain(),
+    types: VOID_TYPES,
+    primaryType: 'OnboardSecrets',
+    message: { wallet: account.address, statement: SECRETS_MESSAGE, version: SECRET_VERSION },
+  });
+  await onboardSecrets(account.address, signature, 'eoa');
+  return account;
+};
@@ -0,0 +1,77 @@
+import { openTestDatabase, onboardWallet, removeTestDatabase, TOKEN } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBalance, getBalanceTree } from '../src/services/balance.service';
+import { getAccountLines, postEntry, SYSTEM_ACCOUNTS } from '../src/services/journal.service';
+import { runStateTransition } from '../src/services/state.service';
+
+before(openTestDatabase);
+after(removeTestDatabase);
+
+test('posts a balanced entry to the journal and the balance tree', async () => {
+  const { address } = await onboardWallet();
+  const rootBefore = getBalanceTree().root;
+
+  await runStateTransition((tx) => postEntry(tx, {
+    type: 'deposit',
+    token: TOKEN,
+    postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -100n }, { account: address, amount: 100n }],
+  }));
+
+  assert.equal(await getBalance(address, TOKEN), 100n);
+  assert.notEqual(getBalanceTree().root, rootBefore);
+  const lines = await getAccountLines(address, TOKEN);
+  assert.deepEqual(lines.map(line => [line.type, line.amount, line.balance]), [['deposit', '100', '100']]);
+});
+
+test('rejects an entry whose postings do not sum to zero', async () => {
+  const { address } = await onboardWallet();
+
+  await assert.rejects(
+    runStateTransition((tx) => postEntry(tx, {
+      type: 'deposit',
+      token: TOKEN,
+      postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -100n }, { account: address, amount: 90n }],
+    })),
+    /does not balance \(off by -10\)/
+  );
+  assert.equal(await getBalance(address, TOKEN), 0n);
+  assert.deepEqual(await getAccountLines(address, TOKEN), []);
+});
+
+test('rejects an overdraft and writes nothing from the transition', async () => {
+  const sender = await onboardWallet();
+  const receiver = await onboardWallet();
+  await runStateTransition((tx) => postEntry(tx, {
+    type: 'deposit',
+    token: TOKEN,
+    postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -50n }, { account: sender.address, amount: 50n }],
+  }));
+  const rootBefore = getBalanceTree().root;
+
+  // The receiver is credited first, so a partial commit would show up in its balance
+  await assert.rejects(
+    runStateTransition((tx) => postEntry(tx, {
+      type: 'transfer',
+      token: TOKEN,
+      postings: [{ account: receiver.address, amount: 80n }, { account: sender.address, amount: -80n }],
+    })),
+    /overdraws/
+  );
+  assert.equal(await getBalance(sender.address, TOKEN), 50n);
+  assert.equal(await getBalance(receiver.address, TOKEN), 0n);
+  assert.equal(getBalanceTree().root, rootBefore);
+});
+
+test('system accounts may go negative', async () => {
+  const { address } = await onboardWallet();
+
+  await runStateTransition((tx) => postEntry(tx, {
+    type: 'deposit',
+    token: TOKEN,
+    postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -5n }, { account: address, amount: 5n }],
+  }));
+
+  const [line] = (await getAccountLines(SYSTEM_ACCOUNTS.chain, TOKEN)).slice(-1);
+  assert.ok(BigInt(line.balance) < 0n);
+});
@@ -0,0 +1,81 @@
+import { openTestDatabase, onboardWallet, removeTestDatabase, TOKEN } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PrivateKeyAccount } from 'viem/accounts';
+import { AppError } from '../src/api/middlewares/errorHandler';
+import { generateKey, getAccountProof, getBalance, getBalanceTree } from '../src/services/balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from '../src/services/journal.service';
+import { rotateSecrets } from '../src/services/rotation.service';
+import { getBalanceSecret, getSecretSeed, ROTATE_SECRETS_MESSAGE, SECRET_VERSION } from '../src/services/secret.service';
+import { runStateTransition } from '../src/services/state.service';
+import { getVoidDomain, VOID_TYPES } from '../src/utils/eip712.util';
+import { env } from '../src/config/env';
+
+before(openTestDatabase);
+after(removeTestDatabase);
+
+const signRotation = (account: PrivateKeyAccount, generation: number) => account.signTypedData({
+  domain: getVoidDomain(),
+  types: VOID_TYPES,
+  primaryType: 'RotateSecrets',
+  message: { wallet: account.address, statement: ROTATE_SECRETS_MESSAGE, version: SECRET_VERSION, generation: BigInt(generation) },
+});
+
+const deposit = (wallet: string, amount: bigint) => runStateTransition((tx) => postEntry(tx, {
+  type: 'deposit',
+  token: TOKEN,
+  postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -amount }, { account: wallet, amount }],
+}));
+
+test('moves every leaf to the new secret in one transition', async () => {
+  const account = await onboardWallet();
+  await deposit(account.address, 70n);
+  const oldSecret = await getBalanceSecret(account.address);
+  assert.ok(oldSecret);
+
+  const rotation = await rotateSecrets(account.address, await signRotation(account, 1), 'eoa', 1);
+
+  const newSecret = await getBalanceSecret(account.address);
+  assert.ok(newSecret && newSecret !== oldSecret);
+  assert.equal(rotation.balanceLeaves, 1);
+  assert.equal(rotation.stateRootAfter, getBalanceTree().root);
+  assert.equal((await getSecretSeed(account.address))?.generation, 1);
+  assert.equal(await getBalanceTree().get(generateKey(account.address, TOKEN, oldSecret)), undefined);
+  assert.equal(await getBalance(account.address, TOKEN), 70n);
+});
+
+test('requires the next generation', async () => {
+  const account = await onboardWallet();
+
+  await assert.rejects(
+    rotateSecrets(account.address, await signRotation(account, 2), 'eoa', 2),
+    (error: unknown) => error instanceof AppError && error.statusCode === 409
+  );
+  assert.equal((await getSecretSeed(account.address))?.generation, 0);
+});
+
+test('refuses to rotate the contract secrets', async () => {
+  const account = await onboardWallet();
+
+  await assert.rejects(
+    rotateSecrets(env.VOID_CONTRACT_ADDRESS, await signRotation(account, 1), 'eoa', 1),
+    /Contract secrets cannot be rotated/
+  );
+});
+
+test('proves roots from before the rotation with the retired secret', async () => {
+  const account = await onboardWallet();
+  await deposit(account.address, 40n);
+  const rootBefore = getBalanceTree().root;
+
+  await rotateSecrets(account.address, await signRotation(account, 1), 'eoa', 1);
+
+  const before = await getAccountProof(account.address, TOKEN, rootBefore);
+  assert.equal(before.type, 'inclusion');
+  assert.equal(before.secretGeneration, 0);
+
+  const live = await getAccountProof(account.address, TOKEN);
+  assert.equal(live.type, 'inclusion');
+  assert.equal(live.secretGeneration, 1);
+  assert.notEqual(live.proof.key, before.proof.key);
+});
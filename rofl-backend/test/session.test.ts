@@ -0,0 +1,48 @@
+import { openTestDatabase, removeTestDatabase } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSession, getSession, isSessionActive, rotateRefreshToken } from '../src/services/session.service';
+
+const WALLET = '0x2222222222222222222222222222222222222222';
+
+before(openTestDatabase);
+after(removeTestDatabase);
+
+test('rotates the refresh token on every use', async () => {
+  const { session, refreshToken } = await createSession(WALLET);
+
+  const first = await rotateRefreshToken(refreshToken);
+  assert.ok(first);
+  assert.notEqual(first.refreshToken, refreshToken);
+  assert.equal(first.session.id, session.id);
+
+  const second = await rotateRefreshToken(first.refreshToken);
+  assert.ok(second);
+  assert.notEqual(second.refreshToken, first.refreshToken);
+});
+
+test('revokes the session when a rotated-out token is used again', async () => {
+  const { session, refreshToken } = await createSession(WALLET);
+  const rotated = await rotateRefreshToken(refreshToken);
+  assert.ok(rotated);
+
+  assert.equal(await rotateRefreshToken(refreshToken), null);
+
+  const stored = await getSession(session.id);
+  assert.ok(stored);
+  assert.equal(stored.revokedReason, 'refresh-token-reuse');
+  assert.equal(isSessionActive(stored), false);
+  // The current token dies with the session
+  assert.equal(await rotateRefreshToken(rotated.refreshToken), null);
+});
+
+test('rejects an unknown token without revoking the session', async () => {
+  const { session, refreshToken } = await createSession(WALLET);
+  const forged = `${session.id}.${'00'.repeat(32)}`;
+
+  assert.equal(await rotateRefreshToken(forged), null);
+
+  const stored = await getSession(session.id);
+  assert.ok(stored && isSessionActive(stored));
+  assert.ok(await rotateRefreshToken(refreshToken));
+});
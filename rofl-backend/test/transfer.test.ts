@@ -0,0 +1,66 @@
+import { openTestDatabase, onboardWallet, removeTestDatabase, TOKEN } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount, generatePrivateKey, type PrivateKeyAccount } from 'viem/accounts';
+import { dbGetAll, dbPut } from '../src/services/db.service';
+import { getBalance } from '../src/services/balance.service';
+import { postEntry, SYSTEM_ACCOUNTS } from '../src/services/journal.service';
+import { onboardSecrets, SECRETS_MESSAGE, SECRET_VERSION } from '../src/services/secret.service';
+import { runStateTransition } from '../src/services/state.service';
+import { releaseUnclaimedTransfers, WalletService } from '../src/services/wallet.service';
+import { getVoidDomain, VOID_TYPES } from '../src/utils/eip712.util';
+
+before(async () => {
+  await openTestDatabase();
+  await dbPut(`token:decimals:${TOKEN}`, '0');
+});
+after(removeTestDatabase);
+
+const signTransfer = async (sender: PrivateKeyAccount, to: string, amount: string) => {
+  const sendTransaction = {
+    from: sender.address,
+    to,
+    token: TOKEN,
+    amount,
+    nonce: 0,
+    deadline: Math.floor(Date.now() / 1000) + 600,
+  };
+  const signature = await sender.signTypedData({
+    domain: getVoidDomain(),
+    types: VOID_TYPES,
+    primaryType: 'Transfer',
+    message: { ...sendTransaction, nonce: BigInt(sendTransaction.nonce), deadline: BigInt(sendTransaction.deadline) },
+  });
+  return { sendTransaction, signature };
+};
+
+test('credits a receiver that onboards while the transfer waits for its transition', async () => {
+  const sender = await onboardWallet();
+  const receiver = privateKeyToAccount(generatePrivateKey());
+  await runStateTransition((tx) => postEntry(tx, {
+    type: 'deposit',
+    token: TOKEN,
+    postings: [{ account: SYSTEM_ACCOUNTS.chain, amount: -10n }, { account: sender.address, amount: 10n }],
+  }));
+
+  // Hold the transition queue so the transfer is queued before the receiver onboards
+  let unblock!: () => void;
+  const blocked = runStateTransition(() => new Promise<void>((resolve) => { unblock = resolve; }));
+  const transfer = new WalletService().transfer(await signTransfer(sender, receiver.address, '10'));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const signature = await receiver.signTypedData({
+    domain: getVoidDomain(),
+    types: VOID_TYPES,
+    primaryType: 'OnboardSecrets',
+    message: { wallet: receiver.address, statement: SECRETS_MESSAGE, version: SECRET_VERSION },
+  });
+  await onboardSecrets(receiver.address, signature, 'eoa');
+  const released = releaseUnclaimedTransfers(receiver.address);
+
+  unblock();
+  await Promise.all([blocked, transfer, released]);
+
+  assert.equal(await getBalance(receiver.address, TOKEN), 10n);
+  assert.deepEqual(await dbGetAll(`transfer:unclaimed:${receiver.address.toLowerCase()}:`), []);
+});